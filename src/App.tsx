@@ -1,36 +1,215 @@
-import { useState, useMemo } from 'react';
+import { useEffect, useState, useMemo } from 'react';
 import { format } from 'date-fns';
-import type { GTFSData, DayInfo } from './types/gtfs';
+import type { Database } from 'sql.js';
+import type {
+  GTFSData,
+  DateSetMode,
+  DayInfo,
+  DayViewMode,
+  QueryBackend,
+  ServiceIndex,
+  TripsListState,
+} from './types/gtfs';
 import { FileUpload } from './components/FileUpload';
+import { FeedLibrary } from './components/FeedLibrary';
 import { DateSelector } from './components/DateSelector';
 import { CalendarList } from './components/CalendarList';
 import { TripsList } from './components/TripsList';
 import { ValidationReport } from './components/ValidationReport';
-import { getDayInfo, getServiceStats } from './utils/calendarService';
+import { ServiceDetailPanel } from './components/ServiceDetailPanel';
+import { RouteCalendar } from './components/RouteCalendar';
+import { DateComparison } from './components/DateComparison';
+import { DayTypes } from './components/DayTypes';
+import { ServiceTimeline } from './components/ServiceTimeline';
+import { SQLConsole } from './components/SQLConsole';
+import {
+  addDaysToGTFSDate,
+  buildServiceIndex,
+  getDateCoverage,
+  getDayInfo,
+  getMultiDayInfo,
+  getServiceStats,
+  parseGTFSDate,
+} from './utils/calendarService';
+import { filterGTFSDataByAgency, getAgencyKey } from './utils/agencyService';
+import { createGTFSDatabase, getServiceQueries } from './utils/gtfsDatabase';
+import { defaultTripsListState, formatDeepLink, parseDeepLink } from './utils/deepLink';
 import './App.css';
 
+// Top-level views of a loaded feed
+type AppView = 'date' | 'route' | 'timeline' | 'compare' | 'daytypes' | 'sql';
+
+const appViews: { view: AppView; label: string }[] = [
+  { view: 'date', label: 'By Date' },
+  { view: 'route', label: 'By Route' },
+  { view: 'timeline', label: 'Timeline' },
+  { view: 'compare', label: 'Compare Dates' },
+  { view: 'daytypes', label: 'Day Types' },
+  { view: 'sql', label: 'SQL Console' },
+];
+
+function isAppView(value: string | undefined): value is AppView {
+  return appViews.some(({ view }) => view === value);
+}
+
+// localStorage key for the backend answering the per-date lookups
+const QUERY_BACKEND_STORAGE_KEY = 'gtfs-calendar.query-backend';
+
+function loadQueryBackend(): QueryBackend {
+  try {
+    return localStorage.getItem(QUERY_BACKEND_STORAGE_KEY) === 'sqlite' ? 'sqlite' : 'index';
+  } catch {
+    return 'index';
+  }
+}
+
 function App() {
   const [gtfsData, setGtfsData] = useState<GTFSData | null>(null);
-  const [selectedDate, setSelectedDate] = useState<Date | null>(null);
+  const [selectedDate, setSelectedDate] = useState<string | null>(null); // YYYYMMDD
+  const [selectedDates, setSelectedDates] = useState<string[] | null>(null); // Multi-date selection
+  const [dateSetMode, setDateSetMode] = useState<DateSetMode>('union');
+  const [dayViewMode, setDayViewMode] = useState<DayViewMode>('service');
+  const [selectedAgency, setSelectedAgency] = useState<string | null>(null);
+  const [selectedServiceId, setSelectedServiceId] = useState<string | null>(null);
+  const [view, setView] = useState<AppView>('date');
+  const [tripsListState, setTripsListState] = useState<TripsListState>(defaultTripsListState);
+  const [queryBackend, setQueryBackend] = useState<QueryBackend>(loadQueryBackend);
+  // Database of the index it was built from, so a stale one is never queried
+  const [loadedDatabase, setLoadedDatabase] = useState<{
+    index: ServiceIndex;
+    db: Database | null;
+    error: string | null;
+  } | null>(null);
+
+  // Deep link of the page URL, applied once when a feed with the same content hash is loaded
+  const [pendingLink, setPendingLink] = useState(() => parseDeepLink(window.location.hash));
+  const [linkMismatch, setLinkMismatch] = useState(false);
+  // Why the last uploaded feed could not be kept in the feed library
+  const [saveError, setSaveError] = useState<{ feedHash: string; message: string } | null>(
+    null
+  );
+
+  // Everything below the overview only sees the selected agency's part of the feed
+  const scopedData = useMemo(() => {
+    if (!gtfsData) return null;
+    if (selectedAgency === null) return gtfsData;
+    return filterGTFSDataByAgency(gtfsData, selectedAgency);
+  }, [gtfsData, selectedAgency]);
+
+  // Built once per loaded feed, and once more per agency only when one is selected.
+  // All per-date queries go through it.
+  const feedIndex = useMemo(() => (gtfsData ? buildServiceIndex(gtfsData) : null), [gtfsData]);
+  const scopedIndex = useMemo(() => {
+    if (!scopedData) return null;
+    return scopedData === gtfsData ? feedIndex : buildServiceIndex(scopedData);
+  }, [scopedData, gtfsData, feedIndex]);
+
+  // The same data in SQLite, for the SQL console and the SQLite query backend
+  useEffect(() => {
+    if (!scopedIndex) return;
+    let cancelled = false;
+    let created: Database | null = null;
+
+    createGTFSDatabase(scopedIndex.data)
+      .then((db) => {
+        if (cancelled) {
+          db.close();
+          return;
+        }
+        created = db;
+        setLoadedDatabase({ index: scopedIndex, db, error: null });
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setLoadedDatabase({
+            index: scopedIndex,
+            db: null,
+            error: err instanceof Error ? err.message : 'Failed to create the SQLite database',
+          });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      created?.close();
+    };
+  }, [scopedIndex]);
+  const database = loadedDatabase?.index === scopedIndex ? loadedDatabase.db : null;
+  const databaseError = loadedDatabase?.index === scopedIndex ? loadedDatabase.error : null;
+
+  // The per-date lookups stay on the index until the database is ready
+  const serviceIndex = useMemo(() => {
+    if (!scopedIndex || queryBackend !== 'sqlite' || !database) return scopedIndex;
+    return { ...scopedIndex, queries: getServiceQueries(database) };
+  }, [scopedIndex, queryBackend, database]);
+
+  // Service and trip counts of every date, shared by the date picker and the validation
+  const feedCoverage = useMemo(() => (feedIndex ? getDateCoverage(feedIndex) : null), [feedIndex]);
+  const coverage = useMemo(() => {
+    if (!serviceIndex) return null;
+    return serviceIndex === feedIndex ? feedCoverage : getDateCoverage(serviceIndex);
+  }, [serviceIndex, feedIndex, feedCoverage]);
 
   const dayInfo: DayInfo | null = useMemo(() => {
-    if (!gtfsData || !selectedDate) return null;
-    return getDayInfo(gtfsData, selectedDate);
-  }, [gtfsData, selectedDate]);
+    if (!serviceIndex || !selectedDate) return null;
+    return getDayInfo(serviceIndex, selectedDate, dayViewMode);
+  }, [serviceIndex, selectedDate, dayViewMode]);
+
+  const multiDayInfo = useMemo(() => {
+    if (!serviceIndex || !selectedDates || selectedDates.length === 0) return null;
+    return getMultiDayInfo(serviceIndex, selectedDates, dateSetMode);
+  }, [serviceIndex, selectedDates, dateSetMode]);
+
+  // After-midnight spillover needs stop times to know when trips end
+  const hasStopTimes = (gtfsData?.tripStopTimes.length ?? 0) > 0;
 
   const stats = useMemo(() => {
-    if (!gtfsData) return null;
-    return getServiceStats(gtfsData);
-  }, [gtfsData]);
+    if (!serviceIndex) return null;
+    return getServiceStats(serviceIndex);
+  }, [serviceIndex]);
 
   const handleDataLoaded = (data: GTFSData) => {
+    const link = pendingLink?.feedHash === data.source.contentHash ? pendingLink : null;
     setGtfsData(data);
-    setSelectedDate(null);
+    setSelectedDate(link?.date ?? null);
+    setSelectedDates(null);
+    setSelectedAgency(null);
+    setSelectedServiceId(null);
+    setDayViewMode('service');
+    setView(isAppView(link?.view) ? link.view : 'date');
+    setTripsListState(link?.tripsList ?? defaultTripsListState);
+    setLinkMismatch(pendingLink !== null && link === null);
+    setPendingLink(null);
+  };
+
+  // Keep the URL hash in sync so the current view can be shared as a link
+  useEffect(() => {
+    if (!gtfsData) return;
+    const hash = formatDeepLink({
+      feedHash: gtfsData.source.contentHash,
+      view,
+      date: selectedDate ?? undefined,
+      tripsList: tripsListState,
+    });
+    if (hash !== window.location.hash) {
+      window.history.replaceState(null, '', hash);
+    }
+  }, [gtfsData, view, selectedDate, tripsListState]);
+
+  // Open the day view on a date picked from another view
+  const handleShowDate = (dateString: string) => {
+    setSelectedDate(dateString);
+    setSelectedDates(null);
+    setView('date');
   };
 
   const handleClearData = () => {
     setGtfsData(null);
     setSelectedDate(null);
+    setSelectedDates(null);
+    setSelectedAgency(null);
+    setSelectedServiceId(null);
+    setLinkMismatch(false);
   };
 
   return (
@@ -43,9 +222,19 @@ function App() {
       </header>
 
       <main className="app-main">
-        {!gtfsData ? (
+        {!gtfsData || !serviceIndex ? (
           <section className="upload-section">
-            <FileUpload onDataLoaded={handleDataLoaded} />
+            {pendingLink && (
+              <p className="deep-link-note">
+                This link opens a view of a shared feed. Load the same GTFS file to restore its
+                date, view and trip filters.
+              </p>
+            )}
+            <FileUpload
+              onDataLoaded={handleDataLoaded}
+              onSaveError={(feedHash, message) => setSaveError({ feedHash, message })}
+            />
+            <FeedLibrary onDataLoaded={handleDataLoaded} />
             <div className="info-box">
               <h3>What is GTFS?</h3>
               <p>
@@ -64,6 +253,10 @@ function App() {
                 <li>
                   <strong>trips.txt</strong> - Individual trips that run on each service
                 </li>
+                <li>
+                  <strong>stop_times.txt</strong> - First departure and last arrival of each
+                  trip
+                </li>
               </ul>
               <p className="privacy-note">
                 All processing is done locally in your browser. No data is uploaded to
@@ -81,6 +274,62 @@ function App() {
                 </button>
               </div>
 
+              {linkMismatch && (
+                <p className="deep-link-note mismatch">
+                  The link was made for a different feed, its date, view and trip filters were not
+                  restored.
+                </p>
+              )}
+
+              {saveError?.feedHash === gtfsData.source.contentHash && (
+                <p className="deep-link-note mismatch">
+                  The feed was loaded but not saved to the feed library: {saveError.message}
+                </p>
+              )}
+
+              <div className="query-backend-selector">
+                <label htmlFor="query-backend-select">Date lookups:</label>
+                <select
+                  id="query-backend-select"
+                  value={queryBackend}
+                  onChange={(e) => {
+                    const backend = e.target.value as QueryBackend;
+                    setQueryBackend(backend);
+                    localStorage.setItem(QUERY_BACKEND_STORAGE_KEY, backend);
+                  }}
+                >
+                  <option value="index">In-memory index</option>
+                  <option value="sqlite">SQLite (sql.js)</option>
+                </select>
+                {queryBackend === 'sqlite' && !database && (
+                  <span className="query-backend-status">
+                    {databaseError ?? 'Loading the feed into SQLite, using the index meanwhile...'}
+                  </span>
+                )}
+              </div>
+
+              {gtfsData.agencies.length > 1 && (
+                <div className="agency-selector">
+                  <label htmlFor="agency-select">Agency:</label>
+                  <select
+                    id="agency-select"
+                    value={selectedAgency ?? ''}
+                    onChange={(e) => {
+                      setSelectedAgency(e.target.value || null);
+                      setSelectedServiceId(null);
+                    }}
+                  >
+                    <option value="">All agencies ({gtfsData.agencies.length})</option>
+                    {gtfsData.agencies.map((agency) => (
+                      <option key={getAgencyKey(agency)} value={getAgencyKey(agency)}>
+                        {agency.agency_name}
+                        {agency.agency_timezone ? ` (${agency.agency_timezone})` : ''}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
               {stats && (
                 <div className="stats-grid">
                   <div className="stat-card">
@@ -107,20 +356,201 @@ function App() {
               )}
             </section>
 
-            <section className="date-section">
-              <h2>Select a Date</h2>
-              <DateSelector
-                gtfsData={gtfsData}
-                selectedDate={selectedDate}
-                onDateSelect={setSelectedDate}
-              />
-            </section>
+            <nav className="view-tabs" aria-label="Views">
+              {appViews.map(({ view: tabView, label }) => (
+                <button
+                  key={tabView}
+                  className={view === tabView ? 'selected' : ''}
+                  onClick={() => setView(tabView)}
+                >
+                  {label}
+                </button>
+              ))}
+            </nav>
+
+            {view === 'date' && (
+              <section className="date-section">
+                <h2>Select a Date</h2>
+                <DateSelector
+                  serviceIndex={serviceIndex}
+                  coverage={coverage ?? []}
+                  selectedDate={selectedDate}
+                  onDateSelect={setSelectedDate}
+                  selectedDates={selectedDates}
+                  onDatesSelect={setSelectedDates}
+                />
+              </section>
+            )}
+
+            {view === 'route' && (
+              <section className="view-section">
+                <h2>Route Calendar</h2>
+                <RouteCalendar
+                  serviceIndex={serviceIndex}
+                  selectedDate={selectedDate}
+                  onDateSelect={handleShowDate}
+                />
+              </section>
+            )}
+
+            {view === 'timeline' && (
+              <section className="view-section">
+                <h2>Service Timeline</h2>
+                <ServiceTimeline serviceIndex={serviceIndex} onDateSelect={handleShowDate} />
+              </section>
+            )}
+
+            {view === 'compare' && (
+              <section className="view-section">
+                <h2>Compare Two Dates</h2>
+                <DateComparison
+                  serviceIndex={serviceIndex}
+                  selectedDate={selectedDate}
+                  mode={dayViewMode}
+                  onDateSelect={handleShowDate}
+                />
+              </section>
+            )}
+
+            {view === 'daytypes' && (
+              <section className="view-section">
+                <h2>Day Types</h2>
+                <DayTypes
+                  serviceIndex={serviceIndex}
+                  selectedDate={selectedDate}
+                  onDateSelect={handleShowDate}
+                />
+              </section>
+            )}
+
+            {view === 'sql' && (
+              <section className="view-section">
+                <h2>SQL Console</h2>
+                <SQLConsole
+                  serviceIndex={serviceIndex}
+                  db={database}
+                  loadError={databaseError}
+                  selectedDate={selectedDate}
+                />
+              </section>
+            )}
+
+            {view === 'date' && multiDayInfo && (
+              <section className="day-details">
+                <div className="day-details-header">
+                  <h2>
+                    {multiDayInfo.dates.length} Dates,{' '}
+                    {format(parseGTFSDate(multiDayInfo.dates[0]), 'MMM d')} -{' '}
+                    {format(
+                      parseGTFSDate(multiDayInfo.dates[multiDayInfo.dates.length - 1]),
+                      'MMM d, yyyy'
+                    )}
+                  </h2>
+                  <div className="mode-toggle" role="group" aria-label="Combine dates">
+                    <button
+                      className={dateSetMode === 'union' ? 'selected' : ''}
+                      onClick={() => setDateSetMode('union')}
+                      title="Services and trips running on at least one of the selected dates"
+                    >
+                      Any date (union)
+                    </button>
+                    <button
+                      className={dateSetMode === 'intersection' ? 'selected' : ''}
+                      onClick={() => setDateSetMode('intersection')}
+                      title="Services and trips running on every selected date"
+                    >
+                      Every date (intersection)
+                    </button>
+                  </div>
+                </div>
+
+                <div className="day-summary">
+                  <div className="summary-item base">
+                    <span className="number">{multiDayInfo.dates.length}</span>
+                    <span className="label">Selected Dates</span>
+                  </div>
+                  <div className="summary-item active">
+                    <span className="number">{multiDayInfo.activeCalendars.length}</span>
+                    <span className="label">Services</span>
+                  </div>
+                  <div className="summary-item trips">
+                    <span className="number">
+                      {multiDayInfo.activeTrips.length.toLocaleString()}
+                    </span>
+                    <span className="label">Trips Running</span>
+                  </div>
+                </div>
+
+                <p className="spillover-note">
+                  Dates are combined by service day. Days counts how many of the selected dates
+                  each service runs on.
+                </p>
+
+                {selectedServiceId && (
+                  <ServiceDetailPanel
+                    serviceIndex={serviceIndex}
+                    serviceId={selectedServiceId}
+                    selectedDate={null}
+                    onDateSelect={handleShowDate}
+                    onClose={() => setSelectedServiceId(null)}
+                  />
+                )}
+
+                <div className="day-content">
+                  <div className="calendars-section">
+                    <CalendarList
+                      title={
+                        dateSetMode === 'union'
+                          ? 'Services Running on Any Selected Date'
+                          : 'Services Running on Every Selected Date'
+                      }
+                      calendars={multiDayInfo.activeCalendars}
+                      type="active"
+                      onServiceSelect={setSelectedServiceId}
+                      operatingDays={multiDayInfo.operatingDays}
+                      dateCount={multiDayInfo.dates.length}
+                    />
+                  </div>
 
-            {selectedDate && dayInfo && (
+                  <div className="trips-section">
+                    <TripsList
+                      trips={multiDayInfo.activeTrips}
+                      agencies={gtfsData.agencies}
+                      operatingDays={multiDayInfo.operatingDays}
+                      dateCount={multiDayInfo.dates.length}
+                      state={tripsListState}
+                      onStateChange={setTripsListState}
+                    />
+                  </div>
+                </div>
+              </section>
+            )}
+
+            {view === 'date' && !selectedDates && selectedDate && dayInfo && (
               <section className="day-details">
-                <h2>
-                  {format(selectedDate, 'EEEE, MMMM d, yyyy')}
-                </h2>
+                <div className="day-details-header">
+                  <h2>
+                    {format(parseGTFSDate(selectedDate), 'EEEE, MMMM d, yyyy')}
+                  </h2>
+                  {hasStopTimes && (
+                    <div className="mode-toggle" role="group" aria-label="Trips shown">
+                      <button
+                        className={dayViewMode === 'service' ? 'selected' : ''}
+                        onClick={() => setDayViewMode('service')}
+                        title="Trips of this service day, including those running past midnight"
+                      >
+                        Service day
+                      </button>
+                      <button
+                        className={dayViewMode === 'operating' ? 'selected' : ''}
+                        onClick={() => setDayViewMode('operating')}
+                        title="Trips running between 00:00 and 24:00 on this date, including the previous service day's late trips"
+                      >
+                        Calendar day (00:00–24:00)
+                      </button>
+                    </div>
+                  )}
+                </div>
 
                 <div className="day-summary">
                   <div className="summary-item active">
@@ -141,34 +571,68 @@ function App() {
                   </div>
                 </div>
 
+                {dayInfo.mode === 'operating' && (
+                  <p className="spillover-note">
+                    Showing trips running during this calendar date.{' '}
+                    {dayInfo.spilloverTrips.length > 0
+                      ? `Includes ${dayInfo.spilloverTrips.length.toLocaleString()} trip(s) of the ${format(
+                          parseGTFSDate(addDaysToGTFSDate(selectedDate, -1)),
+                          'EEEE, MMMM d'
+                        )} service day still running after midnight.`
+                      : 'No trips of the previous service day run past midnight.'}{' '}
+                    Trips of this service day departing after midnight are shown on the next date.
+                  </p>
+                )}
+
+                {selectedServiceId && (
+                  <ServiceDetailPanel
+                    serviceIndex={serviceIndex}
+                    serviceId={selectedServiceId}
+                    selectedDate={selectedDate}
+                    onDateSelect={setSelectedDate}
+                    onClose={() => setSelectedServiceId(null)}
+                  />
+                )}
+
                 <div className="day-content">
                   <div className="calendars-section">
                     <CalendarList
                       title="Computed Calendars (Final Result)"
                       calendars={dayInfo.activeCalendars}
                       type="active"
+                      onServiceSelect={setSelectedServiceId}
                     />
                     <CalendarList
                       title="Base Calendars (Regular Schedule)"
                       calendars={dayInfo.baseCalendars}
                       type="base"
+                      onServiceSelect={setSelectedServiceId}
                     />
                     <CalendarList
                       title="Excluded Calendars"
                       calendars={dayInfo.excludedCalendars}
                       type="excluded"
+                      onServiceSelect={setSelectedServiceId}
                     />
                   </div>
 
                   <div className="trips-section">
-                    <TripsList trips={dayInfo.activeTrips} />
+                    <TripsList
+                      trips={dayInfo.activeTrips}
+                      agencies={gtfsData.agencies}
+                      dateString={dayInfo.dateString}
+                      state={tripsListState}
+                      onStateChange={setTripsListState}
+                    />
                   </div>
                 </div>
               </section>
             )}
 
             <section className="validation-section">
-              <ValidationReport gtfsData={gtfsData} />
+              {feedIndex && feedCoverage && (
+                <ValidationReport serviceIndex={feedIndex} coverage={feedCoverage} />
+              )}
             </section>
           </>
         )}
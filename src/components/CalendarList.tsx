@@ -1,11 +1,13 @@
-import { format } from 'date-fns';
-import type { CalendarDayStatus } from '../types/gtfs';
-import { parseGTFSDate } from '../utils/calendarService';
+import type { CalendarDayStatus, GTFSCalendar } from '../types/gtfs';
+import { formatGTFSDateLabel } from '../utils/calendarService';
 
 interface CalendarListProps {
   title: string;
   calendars: CalendarDayStatus[];
   type: 'active' | 'excluded' | 'base';
+  onServiceSelect?: (serviceId: string) => void;
+  operatingDays?: Map<string, number>; // Multi-date selection: service_id -> selected dates it runs on
+  dateCount?: number; // Multi-date selection: number of selected dates
 }
 
 const typeLabels: Record<CalendarListProps['type'], string> = {
@@ -14,7 +16,14 @@ const typeLabels: Record<CalendarListProps['type'], string> = {
   base: 'base',
 };
 
-export function CalendarList({ title, calendars, type }: CalendarListProps) {
+export function CalendarList({
+  title,
+  calendars,
+  type,
+  onServiceSelect,
+  operatingDays,
+  dateCount,
+}: CalendarListProps) {
   if (calendars.length === 0) {
     return (
       <div className={`calendar-list ${type}`}>
@@ -40,7 +49,13 @@ export function CalendarList({ title, calendars, type }: CalendarListProps) {
           <h4>Regular Services ({regularCalendars.length})</h4>
           <ul>
             {regularCalendars.map((cal) => (
-              <CalendarItem key={cal.service_id} calendar={cal} />
+              <CalendarItem
+                key={cal.service_id}
+                calendar={cal}
+                onServiceSelect={onServiceSelect}
+                operatingDays={operatingDays?.get(cal.service_id)}
+                dateCount={dateCount}
+              />
             ))}
           </ul>
         </div>
@@ -53,7 +68,13 @@ export function CalendarList({ title, calendars, type }: CalendarListProps) {
           </h4>
           <ul>
             {addedExceptions.map((cal) => (
-              <CalendarItem key={cal.service_id} calendar={cal} />
+              <CalendarItem
+                key={cal.service_id}
+                calendar={cal}
+                onServiceSelect={onServiceSelect}
+                operatingDays={operatingDays?.get(cal.service_id)}
+                dateCount={dateCount}
+              />
             ))}
           </ul>
         </div>
@@ -66,7 +87,13 @@ export function CalendarList({ title, calendars, type }: CalendarListProps) {
           </h4>
           <ul>
             {removedExceptions.map((cal) => (
-              <CalendarItem key={cal.service_id} calendar={cal} />
+              <CalendarItem
+                key={cal.service_id}
+                calendar={cal}
+                onServiceSelect={onServiceSelect}
+                operatingDays={operatingDays?.get(cal.service_id)}
+                dateCount={dateCount}
+              />
             ))}
           </ul>
         </div>
@@ -75,60 +102,78 @@ export function CalendarList({ title, calendars, type }: CalendarListProps) {
   );
 }
 
+// Weekday pattern (M T W T F S S) of a calendar.txt row
+export function DaysOfWeek({ calendar }: { calendar: GTFSCalendar }) {
+  const days = [
+    { key: 'monday', label: 'M', active: calendar.monday },
+    { key: 'tuesday', label: 'T', active: calendar.tuesday },
+    { key: 'wednesday', label: 'W', active: calendar.wednesday },
+    { key: 'thursday', label: 'T', active: calendar.thursday },
+    { key: 'friday', label: 'F', active: calendar.friday },
+    { key: 'saturday', label: 'S', active: calendar.saturday },
+    { key: 'sunday', label: 'S', active: calendar.sunday },
+  ];
+
+  return (
+    <div className="days-of-week">
+      {days.map((day) => (
+        <span
+          key={day.key}
+          className={`day-indicator ${day.active ? 'active' : 'inactive'}`}
+          title={day.key}
+        >
+          {day.label}
+        </span>
+      ))}
+    </div>
+  );
+}
+
 interface CalendarItemProps {
   calendar: CalendarDayStatus;
+  onServiceSelect?: (serviceId: string) => void;
+  operatingDays?: number;
+  dateCount?: number;
 }
 
-function CalendarItem({ calendar }: CalendarItemProps) {
+function CalendarItem({ calendar, onServiceSelect, operatingDays, dateCount }: CalendarItemProps) {
   const { service_id, isException, exceptionType, calendar: calData } = calendar;
 
-  const getDaysOfWeek = () => {
-    if (!calData) return null;
-
-    const days = [
-      { key: 'monday', label: 'M', active: calData.monday },
-      { key: 'tuesday', label: 'T', active: calData.tuesday },
-      { key: 'wednesday', label: 'W', active: calData.wednesday },
-      { key: 'thursday', label: 'T', active: calData.thursday },
-      { key: 'friday', label: 'F', active: calData.friday },
-      { key: 'saturday', label: 'S', active: calData.saturday },
-      { key: 'sunday', label: 'S', active: calData.sunday },
-    ];
-
-    return (
-      <div className="days-of-week">
-        {days.map((day) => (
-          <span
-            key={day.key}
-            className={`day-indicator ${day.active ? 'active' : 'inactive'}`}
-            title={day.key}
-          >
-            {day.label}
-          </span>
-        ))}
-      </div>
-    );
-  };
-
   return (
     <li className={`calendar-item ${isException ? `exception ${exceptionType}` : ''}`}>
       <div className="calendar-item-header">
-        <span className="service-id">{service_id}</span>
+        {onServiceSelect ? (
+          <button
+            className="service-id service-link"
+            onClick={() => onServiceSelect(service_id)}
+            title="Show every date of this service"
+          >
+            {service_id}
+          </button>
+        ) : (
+          <span className="service-id">{service_id}</span>
+        )}
         {isException && (
           <span className={`exception-badge ${exceptionType}`}>
             {exceptionType === 'added' ? 'ADDED' : 'REMOVED'}
           </span>
         )}
+        {operatingDays !== undefined && (
+          <span className="operating-days" title="Selected dates this service runs on">
+            {operatingDays}
+            {dateCount !== undefined && ` / ${dateCount}`} days
+          </span>
+        )}
       </div>
 
       {calData && (
         <div className="calendar-item-details">
-          {getDaysOfWeek()}
+          <DaysOfWeek calendar={calData} />
           <div className="date-range">
             <span className="label">Valid:</span>
             <span className="dates">
-              {format(parseGTFSDate(calData.start_date), 'MMM d, yyyy')} -{' '}
-              {format(parseGTFSDate(calData.end_date), 'MMM d, yyyy')}
+              {formatGTFSDateLabel(calData.start_date, 'MMM d, yyyy')} -{' '}
+              {formatGTFSDateLabel(calData.end_date, 'MMM d, yyyy')}
             </span>
           </div>
         </div>
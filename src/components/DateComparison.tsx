@@ -0,0 +1,197 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import type { DayViewMode, ServiceIndex } from '../types/gtfs';
+import {
+  addDaysToGTFSDate,
+  compareDays,
+  fromDateInputValue,
+  getDayInfo,
+  getFeedToday,
+  isValidGTFSDate,
+  parseGTFSDate,
+  toDateInputValue,
+} from '../utils/calendarService';
+
+interface DateComparisonProps {
+  serviceIndex: ServiceIndex;
+  selectedDate: string | null; // YYYYMMDD, used as the first date
+  mode: DayViewMode;
+  onDateSelect: (dateString: string) => void;
+}
+
+export function DateComparison({
+  serviceIndex,
+  selectedDate,
+  mode,
+  onDateSelect,
+}: DateComparisonProps) {
+  const range = serviceIndex.dateRange;
+  const [dateA, setDateA] = useState(
+    () => selectedDate ?? range?.start ?? getFeedToday(serviceIndex)
+  );
+  const [dateB, setDateB] = useState(() => addDaysToGTFSDate(dateA, 1));
+  const [onlyDifferences, setOnlyDifferences] = useState(true);
+
+  const comparison = useMemo(
+    () =>
+      compareDays(getDayInfo(serviceIndex, dateA, mode), getDayInfo(serviceIndex, dateB, mode)),
+    [serviceIndex, dateA, dateB, mode]
+  );
+
+  const visibleRoutes = onlyDifferences
+    ? comparison.routes.filter((r) => r.countA !== r.countB)
+    : comparison.routes;
+  const isIdentical =
+    comparison.onlyA.length === 0 &&
+    comparison.onlyB.length === 0 &&
+    comparison.routes.every((r) => r.countA === r.countB);
+
+  const labelA = format(parseGTFSDate(dateA), 'EEE MMM d, yyyy');
+  const labelB = format(parseGTFSDate(dateB), 'EEE MMM d, yyyy');
+
+  const dateInput = (value: string, onChange: (dateString: string) => void) => (
+    <input
+      type="date"
+      value={toDateInputValue(value)}
+      min={range ? toDateInputValue(range.start) : undefined}
+      max={range ? toDateInputValue(range.end) : undefined}
+      onChange={(e) => {
+        const dateString = fromDateInputValue(e.target.value);
+        if (isValidGTFSDate(dateString)) onChange(dateString);
+      }}
+    />
+  );
+
+  return (
+    <div className="date-comparison">
+      <div className="comparison-controls">
+        <label>
+          First date {dateInput(dateA, setDateA)}
+        </label>
+        <label>
+          Second date {dateInput(dateB, setDateB)}
+        </label>
+        <button
+          onClick={() => {
+            setDateA(dateB);
+            setDateB(dateA);
+          }}
+        >
+          Swap
+        </button>
+      </div>
+
+      <div className="day-summary">
+        <div className="summary-item active">
+          <span className="number">{comparison.both.length}</span>
+          <span className="label">Services on Both</span>
+        </div>
+        <div className="summary-item base">
+          <span className="number">{comparison.onlyA.length}</span>
+          <span className="label">Only on {format(parseGTFSDate(dateA), 'MMM d')}</span>
+        </div>
+        <div className="summary-item excluded">
+          <span className="number">{comparison.onlyB.length}</span>
+          <span className="label">Only on {format(parseGTFSDate(dateB), 'MMM d')}</span>
+        </div>
+        <div className="summary-item trips">
+          <span className="number">
+            {comparison.a.activeTrips.length.toLocaleString()} /{' '}
+            {comparison.b.activeTrips.length.toLocaleString()}
+          </span>
+          <span className="label">Trips</span>
+        </div>
+      </div>
+
+      {isIdentical && (
+        <p className="comparison-identical">
+          Both dates run exactly the same services and the same number of trips on every route.
+        </p>
+      )}
+
+      <div className="comparison-services">
+        {[
+          { title: `Only on ${labelA}`, ids: comparison.onlyA, className: 'only-a' },
+          { title: 'On both dates', ids: comparison.both, className: 'both' },
+          { title: `Only on ${labelB}`, ids: comparison.onlyB, className: 'only-b' },
+        ].map(({ title, ids, className }) => (
+          <div key={className} className={`calendar-list comparison-column ${className}`}>
+            <h3>
+              {title} <span className="count">({ids.length})</span>
+            </h3>
+            {ids.length === 0 ? (
+              <p className="empty-message">No services</p>
+            ) : (
+              <ul>
+                {ids.map((id) => (
+                  <li key={id} className="service-id">
+                    {id}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="comparison-routes">
+        <div className="comparison-routes-header">
+          <h3>Trips per Route</h3>
+          <label>
+            <input
+              type="checkbox"
+              checked={onlyDifferences}
+              onChange={(e) => setOnlyDifferences(e.target.checked)}
+            />
+            Only routes with differences
+          </label>
+        </div>
+        <table className="route-calendar-table">
+          <thead>
+            <tr>
+              <th>Route</th>
+              <th>
+                <button className="date-link" onClick={() => onDateSelect(dateA)}>
+                  {labelA}
+                </button>
+              </th>
+              <th>
+                <button className="date-link" onClick={() => onDateSelect(dateB)}>
+                  {labelB}
+                </button>
+              </th>
+              <th>Difference</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visibleRoutes.map((diff) => {
+              const delta = diff.countB - diff.countA;
+              return (
+                <tr key={diff.route_id}>
+                  <td>
+                    {diff.route?.route_short_name || diff.route_id}
+                    {diff.route?.route_long_name && (
+                      <span className="route-name"> {diff.route.route_long_name}</span>
+                    )}
+                  </td>
+                  <td>{diff.countA}</td>
+                  <td>{diff.countB}</td>
+                  <td className={delta > 0 ? 'diff-up' : delta < 0 ? 'diff-down' : ''}>
+                    {delta > 0 ? `+${delta}` : delta}
+                  </td>
+                </tr>
+              );
+            })}
+            {visibleRoutes.length === 0 && (
+              <tr>
+                <td colSpan={4} className="empty-message">
+                  No route differs between the two dates
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
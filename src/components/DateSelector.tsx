@@ -1,64 +1,157 @@
 import { useMemo, useState } from 'react';
-import { format, isSameDay, startOfMonth, endOfMonth, eachDayOfInterval, getDay, addMonths, subMonths } from 'date-fns';
-import type { GTFSData } from '../types/gtfs';
-import { getAvailableDates, getDateRange, getActiveServiceIds } from '../utils/calendarService';
+import { format } from 'date-fns';
+import type { DateCoverage, ServiceIndex } from '../types/gtfs';
+import { ServiceHeatmap } from './ServiceHeatmap';
+import {
+  getAvailableDates,
+  getDateRange,
+  getFeedToday,
+  getGTFSMonthStart,
+  toDateInputValue,
+  fromDateInputValue,
+  addDaysToGTFSDate,
+  eachGTFSDate,
+  getGTFSDayOfWeek,
+  parseGTFSDate,
+} from '../utils/calendarService';
 
 interface DateSelectorProps {
-  gtfsData: GTFSData;
-  selectedDate: Date | null;
-  onDateSelect: (date: Date) => void;
+  serviceIndex: ServiceIndex;
+  coverage: DateCoverage[]; // getDateCoverage of serviceIndex
+  selectedDate: string | null; // YYYYMMDD
+  onDateSelect: (dateString: string) => void;
+  selectedDates: string[] | null; // YYYYMMDD, null when selecting a single date
+  onDatesSelect: (dates: string[] | null) => void;
 }
 
-export function DateSelector({ gtfsData, selectedDate, onDateSelect }: DateSelectorProps) {
-  const dateRange = useMemo(() => getDateRange(gtfsData), [gtfsData]);
-  const availableDates = useMemo(() => getAvailableDates(gtfsData), [gtfsData]);
+// Monday-first, as in the month view, with getGTFSDayOfWeek numbers (0=Sunday)
+const rangeWeekdays = [
+  { day: 1, label: 'Mon' },
+  { day: 2, label: 'Tue' },
+  { day: 3, label: 'Wed' },
+  { day: 4, label: 'Thu' },
+  { day: 5, label: 'Fri' },
+  { day: 6, label: 'Sat' },
+  { day: 0, label: 'Sun' },
+];
+
+export function DateSelector({
+  serviceIndex,
+  coverage,
+  selectedDate,
+  onDateSelect,
+  selectedDates,
+  onDatesSelect,
+}: DateSelectorProps) {
+  const today = useMemo(() => getFeedToday(serviceIndex), [serviceIndex]);
+  const [referenceDate, setReferenceDate] = useState(today);
+  const [includePast, setIncludePast] = useState(false);
+  const [view, setView] = useState<'month' | 'range'>('month');
+  const isToday = referenceDate === today;
+  const isMultiple = selectedDates !== null;
+
+  const dateRange = useMemo(() => getDateRange(serviceIndex), [serviceIndex]);
+  const availableDates = useMemo(
+    () => getAvailableDates(serviceIndex, { referenceDate, includePast }),
+    [serviceIndex, referenceDate, includePast]
+  );
+
+  // Dates on or after the reference date, for the quick-select list and counters
+  const upcomingDates = useMemo(
+    () => availableDates.filter((date) => date >= referenceDate),
+    [availableDates, referenceDate]
+  );
 
   const [currentMonth, setCurrentMonth] = useState(() => {
     if (availableDates.length > 0) {
-      return startOfMonth(availableDates[0]);
+      return getGTFSMonthStart(availableDates[0]);
     }
-    return startOfMonth(new Date());
+    return getGTFSMonthStart(today);
   });
 
+  const referenceLabel = isToday ? 'today' : format(parseGTFSDate(referenceDate), 'MMM d, yyyy');
+
+  const handleReferenceDateChange = (dateString: string) => {
+    setReferenceDate(dateString);
+    setCurrentMonth(getGTFSMonthStart(dateString));
+  };
+
   // Create a Set for quick lookup of available dates
-  const availableDateStrings = useMemo(
-    () => new Set(availableDates.map((d) => format(d, 'yyyy-MM-dd'))),
-    [availableDates]
+  const availableDateStrings = useMemo(() => new Set(availableDates), [availableDates]);
+
+  // Highlighted dates, the multi-date selection or the single selected date
+  const selectedDateStrings = useMemo(
+    () => new Set(selectedDates ?? (selectedDate ? [selectedDate] : [])),
+    [selectedDates, selectedDate]
   );
 
-  // Pre-calculate service counts for visible dates
-  const serviceCountsForMonth = useMemo(() => {
-    const counts = new Map<string, number>();
-    const monthStart = startOfMonth(currentMonth);
-    const monthEnd = endOfMonth(currentMonth);
-    const daysInMonth = eachDayOfInterval({ start: monthStart, end: monthEnd });
-
-    for (const day of daysInMonth) {
-      const dateStr = format(day, 'yyyy-MM-dd');
-      if (availableDateStrings.has(dateStr)) {
-        const activeServices = getActiveServiceIds(gtfsData, day);
-        counts.set(dateStr, activeServices.size);
+  // Range and weekday filter used to fill the multi-date selection
+  const [rangeStart, setRangeStart] = useState(() => selectedDate ?? upcomingDates[0] ?? today);
+  const [rangeEnd, setRangeEnd] = useState(() =>
+    addDaysToGTFSDate(selectedDate ?? upcomingDates[0] ?? today, 6)
+  );
+  const [rangeDays, setRangeDays] = useState<Set<number>>(() => new Set([0, 1, 2, 3, 4, 5, 6]));
+
+  const toggleRangeDay = (day: number) => {
+    setRangeDays((prev) => {
+      const next = new Set(prev);
+      if (next.has(day)) {
+        next.delete(day);
+      } else {
+        next.add(day);
       }
+      return next;
+    });
+  };
+
+  // Replace the selection with the available dates of the range on the checked weekdays
+  const handleSelectRange = () => {
+    const [start, end] = rangeStart <= rangeEnd ? [rangeStart, rangeEnd] : [rangeEnd, rangeStart];
+    onDatesSelect(
+      eachGTFSDate(start, end).filter(
+        (date) => availableDateStrings.has(date) && rangeDays.has(getGTFSDayOfWeek(date))
+      )
+    );
+  };
+
+  // Pick a single date, or add/remove it from the multi-date selection
+  const handleDayClick = (dateString: string) => {
+    if (!selectedDates) {
+      onDateSelect(dateString);
+    } else if (selectedDates.includes(dateString)) {
+      onDatesSelect(selectedDates.filter((date) => date !== dateString));
+    } else {
+      onDatesSelect([...selectedDates, dateString].sort());
     }
-    return counts;
-  }, [currentMonth, gtfsData, availableDateStrings]);
+  };
 
-  const daysInMonth = useMemo(() => {
-    const start = startOfMonth(currentMonth);
-    const end = endOfMonth(currentMonth);
-    return eachDayOfInterval({ start, end });
-  }, [currentMonth]);
+  const daysInMonth = useMemo(
+    () => eachGTFSDate(currentMonth, addDaysToGTFSDate(getGTFSMonthStart(currentMonth, 1), -1)),
+    [currentMonth]
+  );
+
+  // Service and trip counts for every date of the feed, shared by the month and range views
+  const coverageByDate = useMemo(
+    () => new Map(coverage.map((day) => [day.dateString, day])),
+    [coverage]
+  );
 
   // Get starting day offset (0 = Monday for Monday-start calendar)
-  // getDay returns 0=Sunday, so we convert: (day + 6) % 7 makes Monday=0
-  const startOffset = (getDay(startOfMonth(currentMonth)) + 6) % 7;
+  // getGTFSDayOfWeek returns 0=Sunday, so we convert: (day + 6) % 7 makes Monday=0
+  const startOffset = (getGTFSDayOfWeek(currentMonth) + 6) % 7;
+
+  // Keep the month view on the month of a day picked in the range view
+  const handleRangeDateSelect = (dateString: string) => {
+    setCurrentMonth(getGTFSMonthStart(dateString));
+    handleDayClick(dateString);
+  };
 
   const handlePrevMonth = () => {
-    setCurrentMonth((prev) => subMonths(prev, 1));
+    setCurrentMonth((prev) => getGTFSMonthStart(prev, -1));
   };
 
   const handleNextMonth = () => {
-    setCurrentMonth((prev) => addMonths(prev, 1));
+    setCurrentMonth((prev) => getGTFSMonthStart(prev, 1));
   };
 
   const weekDays = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
@@ -75,81 +168,189 @@ export function DateSelector({ gtfsData, selectedDate, onDateSelect }: DateSelec
     <div className="date-selector">
       <div className="date-range-info">
         <span>Data available: </span>
-        <strong>{format(dateRange.start, 'MMM d, yyyy')}</strong>
+        <strong>{format(parseGTFSDate(dateRange.start), 'MMM d, yyyy')}</strong>
         <span> to </span>
-        <strong>{format(dateRange.end, 'MMM d, yyyy')}</strong>
-        <span className="date-count"> ({availableDates.length} days from today)</span>
+        <strong>{format(parseGTFSDate(dateRange.end), 'MMM d, yyyy')}</strong>
+        <span className="date-count">
+          {includePast
+            ? ` (${availableDates.length} days, ${upcomingDates.length} from ${referenceLabel})`
+            : ` (${availableDates.length} days from ${referenceLabel})`}
+        </span>
+        {serviceIndex.timeZone && (
+          <span className="date-timezone"> · Today in {serviceIndex.timeZone}</span>
+        )}
       </div>
 
-      <div className="calendar-nav">
-        <button onClick={handlePrevMonth} className="nav-btn">
-          ◀ Prev
-        </button>
-        <h3>{format(currentMonth, 'MMMM yyyy')}</h3>
-        <button onClick={handleNextMonth} className="nav-btn">
-          Next ▶
-        </button>
+      <div className="date-options">
+        <label>
+          <input
+            type="checkbox"
+            checked={includePast}
+            onChange={(e) => setIncludePast(e.target.checked)}
+          />
+          Include past dates
+        </label>
+        <label>
+          Reference date
+          <input
+            type="date"
+            value={toDateInputValue(referenceDate)}
+            min={toDateInputValue(dateRange.start)}
+            max={toDateInputValue(dateRange.end)}
+            onChange={(e) => e.target.value && handleReferenceDateChange(fromDateInputValue(e.target.value))}
+          />
+        </label>
+        {!isToday && (
+          <button className="reset-reference" onClick={() => handleReferenceDateChange(today)}>
+            Back to today
+          </button>
+        )}
+        <div className="mode-toggle" role="group" aria-label="Date selection">
+          <button className={!isMultiple ? 'selected' : ''} onClick={() => onDatesSelect(null)}>
+            Single date
+          </button>
+          <button
+            className={isMultiple ? 'selected' : ''}
+            onClick={() => !isMultiple && onDatesSelect(selectedDate ? [selectedDate] : [])}
+          >
+            Multiple dates
+          </button>
+        </div>
+        <div className="mode-toggle" role="group" aria-label="Calendar view">
+          <button className={view === 'month' ? 'selected' : ''} onClick={() => setView('month')}>
+            Month
+          </button>
+          <button className={view === 'range' ? 'selected' : ''} onClick={() => setView('range')}>
+            Whole range
+          </button>
+        </div>
       </div>
 
-      <div className="calendar-grid">
-        {weekDays.map((day) => (
-          <div key={day} className="calendar-header">
-            {day}
+      {selectedDates && (
+        <div className="date-set-builder">
+          <label>
+            From
+            <input
+              type="date"
+              value={toDateInputValue(rangeStart)}
+              min={toDateInputValue(dateRange.start)}
+              max={toDateInputValue(dateRange.end)}
+              onChange={(e) => e.target.value && setRangeStart(fromDateInputValue(e.target.value))}
+            />
+          </label>
+          <label>
+            to
+            <input
+              type="date"
+              value={toDateInputValue(rangeEnd)}
+              min={toDateInputValue(dateRange.start)}
+              max={toDateInputValue(dateRange.end)}
+              onChange={(e) => e.target.value && setRangeEnd(fromDateInputValue(e.target.value))}
+            />
+          </label>
+          <div className="range-weekdays" role="group" aria-label="Days of week in the range">
+            {rangeWeekdays.map(({ day, label }) => (
+              <label key={day}>
+                <input
+                  type="checkbox"
+                  checked={rangeDays.has(day)}
+                  onChange={() => toggleRangeDay(day)}
+                />
+                {label}
+              </label>
+            ))}
           </div>
-        ))}
-
-        {/* Empty cells for offset */}
-        {Array.from({ length: startOffset }).map((_, i) => (
-          <div key={`empty-${i}`} className="calendar-cell empty" />
-        ))}
-
-        {/* Day cells */}
-        {daysInMonth.map((day) => {
-          const dateStr = format(day, 'yyyy-MM-dd');
-          const isAvailable = availableDateStrings.has(dateStr);
-          const isSelected = selectedDate && isSameDay(day, selectedDate);
-          const serviceCount = serviceCountsForMonth.get(dateStr) || 0;
-
-          return (
-            <button
-              key={dateStr}
-              className={`calendar-cell ${isAvailable ? 'available' : 'unavailable'} ${
-                isSelected ? 'selected' : ''
-              } ${serviceCount > 0 ? 'has-services' : ''}`}
-              onClick={() => isAvailable && onDateSelect(day)}
-              disabled={!isAvailable}
-              title={
-                isAvailable
-                  ? `${serviceCount} active service${serviceCount !== 1 ? 's' : ''}`
-                  : 'No data for this date'
-              }
-            >
-              <span className="day-number">{format(day, 'd')}</span>
-              {isAvailable && serviceCount > 0 && (
-                <span className="service-count">{serviceCount}</span>
-              )}
+          <button onClick={handleSelectRange}>Select range</button>
+          <button onClick={() => onDatesSelect([])} disabled={selectedDates.length === 0}>
+            Clear
+          </button>
+          <span className="date-set-count">
+            {selectedDates.length} date{selectedDates.length !== 1 ? 's' : ''} selected · click days
+            to add or remove them
+          </span>
+        </div>
+      )}
+
+      {view === 'range' ? (
+        <ServiceHeatmap
+          range={dateRange}
+          coverageByDate={coverageByDate}
+          availableDates={availableDateStrings}
+          selectedDates={selectedDateStrings}
+          onDateSelect={handleRangeDateSelect}
+        />
+      ) : (
+        <>
+          <div className="calendar-nav">
+            <button onClick={handlePrevMonth} className="nav-btn">
+              ◀ Prev
             </button>
-          );
-        })}
-      </div>
+            <h3>{format(parseGTFSDate(currentMonth), 'MMMM yyyy')}</h3>
+            <button onClick={handleNextMonth} className="nav-btn">
+              Next ▶
+            </button>
+          </div>
+
+          <div className="calendar-grid">
+            {weekDays.map((day) => (
+              <div key={day} className="calendar-header">
+                {day}
+              </div>
+            ))}
+
+            {/* Empty cells for offset */}
+            {Array.from({ length: startOffset }).map((_, i) => (
+              <div key={`empty-${i}`} className="calendar-cell empty" />
+            ))}
+
+            {/* Day cells */}
+            {daysInMonth.map((day) => {
+              const isAvailable = availableDateStrings.has(day);
+              const isSelected = selectedDateStrings.has(day);
+              const serviceCount = isAvailable ? (coverageByDate.get(day)?.serviceCount ?? 0) : 0;
+
+              return (
+                <button
+                  key={day}
+                  className={`calendar-cell ${isAvailable ? 'available' : 'unavailable'} ${
+                    isSelected ? 'selected' : ''
+                  } ${serviceCount > 0 ? 'has-services' : ''}`}
+                  onClick={() => isAvailable && handleDayClick(day)}
+                  disabled={!isAvailable}
+                  title={
+                    isAvailable
+                      ? `${serviceCount} active service${serviceCount !== 1 ? 's' : ''}`
+                      : 'No data for this date'
+                  }
+                >
+                  <span className="day-number">{Number(day.slice(6, 8))}</span>
+                  {isAvailable && serviceCount > 0 && (
+                    <span className="service-count">{serviceCount}</span>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        </>
+      )}
 
       {/* Quick date list */}
       <div className="date-list">
-        <h4>Quick Select (Next 14 days with service)</h4>
+        <h4>Quick Select (Next 14 days from {referenceLabel})</h4>
         <div className="date-buttons">
-          {availableDates.slice(0, 14).map((date) => {
-            const dateStr = format(date, 'yyyy-MM-dd');
-            const isSelected = selectedDate && isSameDay(date, selectedDate);
-            const serviceCount = getActiveServiceIds(gtfsData, date).size;
+          {upcomingDates.slice(0, 14).map((date) => {
+            const isSelected = selectedDateStrings.has(date);
+            const serviceCount = coverageByDate.get(date)?.serviceCount ?? 0;
+            const displayDate = parseGTFSDate(date);
 
             return (
               <button
-                key={dateStr}
+                key={date}
                 className={`date-btn ${isSelected ? 'selected' : ''}`}
-                onClick={() => onDateSelect(date)}
+                onClick={() => handleDayClick(date)}
               >
-                <span className="date-btn-day">{format(date, 'EEE')}</span>
-                <span className="date-btn-date">{format(date, 'MMM d')}</span>
+                <span className="date-btn-day">{format(displayDate, 'EEE')}</span>
+                <span className="date-btn-date">{format(displayDate, 'MMM d')}</span>
                 <span className="date-btn-services">{serviceCount} svc</span>
               </button>
             );
@@ -0,0 +1,210 @@
+import { Fragment, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import type { DayType, ServiceIndex } from '../types/gtfs';
+import { getDayTypes, parseGTFSDate } from '../utils/calendarService';
+
+interface DayTypesProps {
+  serviceIndex: ServiceIndex;
+  selectedDate: string | null; // YYYYMMDD
+  onDateSelect: (dateString: string) => void;
+}
+
+const weekdayShortNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function formatDay(dateString: string, pattern = 'EEE MMM d, yyyy'): string {
+  return format(parseGTFSDate(dateString), pattern);
+}
+
+// Monday-first short names of the usual days of week
+function formatWeekdays(weekdays: number[]): string {
+  return [...weekdays]
+    .sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7))
+    .map((day) => weekdayShortNames[day])
+    .join(' ');
+}
+
+// Plain text summary, one line per day type followed by its unusual dates
+function formatDayTypeSummary(dayTypes: DayType[], labels: Map<string, string>): string {
+  const lines: string[] = [];
+  for (const dayType of dayTypes) {
+    const label = labels.get(dayType.key) ?? dayType.label;
+    const first = formatDay(dayType.dates[0], 'yyyy-MM-dd');
+    const last = formatDay(dayType.dates[dayType.dates.length - 1], 'yyyy-MM-dd');
+    lines.push(
+      `${label}: ${dayType.dates.length} days, ${dayType.tripCount} trips/day, ` +
+        `${formatWeekdays(dayType.weekdays)}, ${first} to ${last}, ` +
+        `services: ${dayType.serviceIds.join(', ') || 'none'}`
+    );
+    if (dayType.unusualDates.length > 0) {
+      lines.push(
+        `  Irregular: ${dayType.unusualDates.map((d) => formatDay(d, 'EEE yyyy-MM-dd')).join(', ')}`
+      );
+    }
+  }
+  return lines.join('\n');
+}
+
+export function DayTypes({ serviceIndex, selectedDate, onDateSelect }: DayTypesProps) {
+  const dayTypes = useMemo(() => getDayTypes(serviceIndex), [serviceIndex]);
+  const [customLabels, setCustomLabels] = useState<Map<string, string>>(new Map());
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const labels = useMemo(() => {
+    const merged = new Map(dayTypes.map((dayType) => [dayType.key, dayType.label]));
+    for (const [key, label] of customLabels) {
+      if (merged.has(key) && label.trim()) merged.set(key, label.trim());
+    }
+    return merged;
+  }, [dayTypes, customLabels]);
+
+  // Every unusual date with the day type it belongs to, in date order
+  const irregularDates = useMemo(
+    () =>
+      dayTypes
+        .flatMap((dayType) => dayType.unusualDates.map((dateString) => ({ dateString, dayType })))
+        .sort((a, b) => a.dateString.localeCompare(b.dateString)),
+    [dayTypes]
+  );
+
+  const summary = useMemo(() => formatDayTypeSummary(dayTypes, labels), [dayTypes, labels]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(summary);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  if (dayTypes.length === 0) {
+    return (
+      <div className="day-types empty">
+        <p className="empty-message">No dates in this feed</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="day-types">
+      <div className="day-summary">
+        <div className="summary-item active">
+          <span className="number">{dayTypes.filter((d) => !d.isIrregular).length}</span>
+          <span className="label">Regular Day Types</span>
+        </div>
+        <div className="summary-item excluded">
+          <span className="number">{dayTypes.filter((d) => d.isIrregular).length}</span>
+          <span className="label">Special Day Types</span>
+        </div>
+        <div className="summary-item base">
+          <span className="number">{irregularDates.length}</span>
+          <span className="label">Irregular Dates</span>
+        </div>
+      </div>
+
+      <div className="route-calendar-table-wrapper">
+        <table className="route-calendar-table day-types-table">
+          <thead>
+            <tr>
+              <th>Day type</th>
+              <th>Dates</th>
+              <th>Trips / day</th>
+              <th>Usual days</th>
+              <th>Period</th>
+              <th>Services</th>
+            </tr>
+          </thead>
+          <tbody>
+            {dayTypes.map((dayType) => {
+              const isExpanded = expandedKey === dayType.key;
+              const unusual = new Set(dayType.unusualDates);
+
+              return (
+                <Fragment key={dayType.key}>
+                  <tr className={dayType.isIrregular ? 'irregular' : ''}>
+                    <td>
+                      <input
+                        className="day-type-label"
+                        value={customLabels.get(dayType.key) ?? dayType.label}
+                        aria-label={`Name of ${dayType.label}`}
+                        onChange={(e) =>
+                          setCustomLabels((prev) => new Map(prev).set(dayType.key, e.target.value))
+                        }
+                      />
+                    </td>
+                    <td>
+                      <button
+                        className="date-link"
+                        onClick={() => setExpandedKey(isExpanded ? null : dayType.key)}
+                        aria-expanded={isExpanded}
+                      >
+                        {isExpanded ? '▾' : '▸'} {dayType.dates.length}
+                      </button>
+                    </td>
+                    <td>{dayType.tripCount.toLocaleString()}</td>
+                    <td>{formatWeekdays(dayType.weekdays)}</td>
+                    <td>
+                      {formatDay(dayType.dates[0], 'MMM d, yyyy')}
+                      {dayType.dates.length > 1 &&
+                        ` - ${formatDay(dayType.dates[dayType.dates.length - 1], 'MMM d, yyyy')}`}
+                    </td>
+                    <td className="service-id">
+                      {dayType.serviceIds.length === 0 ? 'No service' : dayType.serviceIds.join(', ')}
+                    </td>
+                  </tr>
+                  {isExpanded && (
+                    <tr className="day-type-dates-row">
+                      <td colSpan={6}>
+                        <div className="day-type-dates">
+                          {dayType.dates.map((dateString) => (
+                            <button
+                              key={dateString}
+                              className={`day-type-date ${unusual.has(dateString) ? 'unusual' : ''} ${
+                                dateString === selectedDate ? 'selected' : ''
+                              }`}
+                              onClick={() => onDateSelect(dateString)}
+                            >
+                              {formatDay(dateString, 'EEE MMM d')}
+                            </button>
+                          ))}
+                        </div>
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="day-types-irregular">
+        <h3>Irregular Dates ({irregularDates.length})</h3>
+        {irregularDates.length === 0 ? (
+          <p className="empty-message">Every date follows its day type's usual days of week</p>
+        ) : (
+          <ul>
+            {irregularDates.map(({ dateString, dayType }) => (
+              <li key={dateString}>
+                <button className="date-link" onClick={() => onDateSelect(dateString)}>
+                  {formatDay(dateString)}
+                </button>{' '}
+                runs as <strong>{labels.get(dayType.key)}</strong>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="day-types-summary">
+        <div className="day-types-summary-header">
+          <h3>Summary</h3>
+          <button onClick={handleCopy}>{copied ? 'Copied' : 'Copy'}</button>
+        </div>
+        <textarea readOnly value={summary} rows={Math.min(12, summary.split('\n').length)} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import type { GTFSData } from '../types/gtfs';
+import type { FeedLibraryEntry } from '../utils/feedLibrary';
+import { deleteFeed, listFeeds, loadFeed } from '../utils/feedLibrary';
+import { parseGTFSDate } from '../utils/calendarService';
+import { downloadBlob, formatBytes } from '../utils/fileExport';
+
+interface FeedLibraryProps {
+  onDataLoaded: (data: GTFSData) => void;
+}
+
+export function FeedLibrary({ onDataLoaded }: FeedLibraryProps) {
+  const [feeds, setFeeds] = useState<FeedLibraryEntry[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    listFeeds()
+      .then((entries) => !cancelled && setFeeds(entries))
+      // Without IndexedDB (private browsing, old browsers) there is simply no library
+      .catch(() => !cancelled && setFeeds([]));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const run = async (id: string, action: () => Promise<void>) => {
+    setBusyId(id);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Feed library operation failed');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleOpen = (entry: FeedLibraryEntry) =>
+    run(entry.id, async () => {
+      const stored = await loadFeed(entry.id);
+      if (!stored) throw new Error(`${entry.fileName} is no longer in the library`);
+      onDataLoaded(stored.data);
+    });
+
+  const handleDownload = (entry: FeedLibraryEntry) =>
+    run(entry.id, async () => {
+      const stored = await loadFeed(entry.id);
+      if (!stored?.file) throw new Error(`The original ZIP of ${entry.fileName} was not kept`);
+      downloadBlob(stored.file, entry.fileName);
+    });
+
+  const handleDelete = (entry: FeedLibraryEntry) =>
+    run(entry.id, async () => {
+      await deleteFeed(entry.id);
+      setFeeds((prev) => prev.filter((feed) => feed.id !== entry.id));
+    });
+
+  if (feeds.length === 0) return null;
+
+  return (
+    <div className="feed-library">
+      <h3>
+        Previously Loaded Feeds <span className="count">({feeds.length})</span>
+      </h3>
+      <p className="feed-library-note">Stored in this browser only, reopened without re-parsing.</p>
+
+      <ul>
+        {feeds.map((entry) => (
+          <li key={entry.id} className="feed-library-item">
+            <div className="feed-library-info">
+              <strong>{entry.fileName}</strong>
+              {entry.agencyNames.length > 0 && (
+                <span className="feed-library-agencies">{entry.agencyNames.join(', ')}</span>
+              )}
+              <span className="feed-library-meta">
+                {formatBytes(entry.fileSize)}
+                {entry.dateRange &&
+                  ` · ${format(parseGTFSDate(entry.dateRange.start), 'MMM d, yyyy')} - ${format(
+                    parseGTFSDate(entry.dateRange.end),
+                    'MMM d, yyyy'
+                  )}`}
+                {` · loaded ${format(entry.loadedAt, 'MMM d, yyyy HH:mm')}`}
+                {entry.parseDuration !== undefined &&
+                  ` in ${(entry.parseDuration / 1000).toFixed(1)} s`}
+              </span>
+            </div>
+            <div className="feed-library-actions">
+              <button onClick={() => handleOpen(entry)} disabled={busyId !== null}>
+                Open
+              </button>
+              {entry.hasFile && (
+                <button
+                  onClick={() => handleDownload(entry)}
+                  disabled={busyId !== null}
+                  title="Download the original ZIP"
+                >
+                  ZIP
+                </button>
+              )}
+              <button
+                className="delete-btn"
+                onClick={() => handleDelete(entry)}
+                disabled={busyId !== null}
+              >
+                Delete
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {error && <div className="error-message">{error}</div>}
+    </div>
+  );
+}
@@ -1,54 +1,115 @@
-import { useCallback, useState } from 'react';
-import { parseGTFSZip, listGTFSFiles } from '../utils/gtfsParser';
+import { useCallback, useRef, useState } from 'react';
+import { parseGTFSInWorker } from '../utils/gtfsWorkerClient';
+import type { GTFSInput, ParseProgress } from '../utils/gtfsParser';
 import type { GTFSData } from '../types/gtfs';
+import { formatBytes } from '../utils/fileExport';
+import { fetchGTFSFile, getDroppedFiles, getFolderName, toGTFSInput } from '../utils/feedSources';
+
+// localStorage key for keeping original zips in the feed library
+const KEEP_ZIP_STORAGE_KEY = 'gtfs-calendar.keep-zip';
+
+function loadKeepZip(): boolean {
+  try {
+    return localStorage.getItem(KEEP_ZIP_STORAGE_KEY) === 'true';
+  } catch {
+    return false;
+  }
+}
 
 interface FileUploadProps {
   onDataLoaded: (data: GTFSData) => void;
+  // The save ends after the data is shown and this form is gone
+  onSaveError: (feedHash: string, message: string) => void;
 }
 
-export function FileUpload({ onDataLoaded }: FileUploadProps) {
+export function FileUpload({ onDataLoaded, onSaveError }: FileUploadProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [fileName, setFileName] = useState<string | null>(null);
   const [fileList, setFileList] = useState<string[]>([]);
+  const [progress, setProgress] = useState<ParseProgress | null>(null);
+  const [url, setUrl] = useState('');
+  const [keepZip, setKeepZip] = useState(loadKeepZip);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
-  const handleFileChange = useCallback(
-    async (event: React.ChangeEvent<HTMLInputElement>) => {
-      const file = event.target.files?.[0];
-      if (!file) return;
+  // Parse any input off the main thread, then keep it in the library
+  const loadInput = useCallback(
+    async (getInput: (signal: AbortSignal) => Promise<GTFSInput>, label: string) => {
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
 
       setIsLoading(true);
       setError(null);
-      setFileName(file.name);
+      setFileName(label);
+      setFileList([]);
+      setProgress(null);
 
       try {
-        // First, list files in the zip
-        const files = await listGTFSFiles(file);
-        setFileList(files);
-
-        // Check for required files
-        const hasCalendarOrDates =
-          files.includes('calendar.txt') || files.includes('calendar_dates.txt');
-
-        if (!hasCalendarOrDates) {
-          throw new Error(
-            'GTFS file must contain calendar.txt or calendar_dates.txt'
-          );
-        }
-
-        // Parse the GTFS data
-        const data = await parseGTFSZip(file);
+        const input = await getInput(abortController.signal);
+        // The worker also keeps the feed for next time, once the data is shown
+        const data = await parseGTFSInWorker(input, {
+          signal: abortController.signal,
+          onFileList: setFileList,
+          onProgress: setProgress,
+          library: { keepZip },
+          onSaveError,
+        });
         onDataLoaded(data);
       } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to parse GTFS file');
+        if (err instanceof DOMException && err.name === 'AbortError') {
+          setFileName(null);
+        } else {
+          setError(err instanceof Error ? err.message : 'Failed to parse GTFS file');
+        }
         setFileList([]);
       } finally {
+        abortControllerRef.current = null;
         setIsLoading(false);
+        setProgress(null);
+      }
+    },
+    [onDataLoaded, onSaveError, keepZip]
+  );
+
+  const loadFiles = useCallback(
+    async (files: File[], folderName?: string) => {
+      const input = toGTFSInput(files, folderName);
+      if (!input) {
+        setError('Please drop a GTFS .zip file, a folder or .txt files');
+        return;
       }
+      await loadInput(async () => input, input.kind === 'zip' ? input.file.name : input.name);
+    },
+    [loadInput]
+  );
+
+  const handleFileChange = useCallback(
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const files = Array.from(event.target.files ?? []);
+      // Allow selecting the same files again after a cancel or error
+      event.target.value = '';
+      if (files.length > 0) await loadFiles(files, getFolderName(files));
     },
-    [onDataLoaded]
+    [loadFiles]
   );
 
+  const handleURLSubmit = useCallback(
+    async (event: React.FormEvent) => {
+      event.preventDefault();
+      const trimmed = url.trim();
+      if (!trimmed) return;
+      await loadInput(
+        async (signal) => ({ kind: 'zip', file: await fetchGTFSFile(trimmed, signal) }),
+        trimmed
+      );
+    },
+    [loadInput, url]
+  );
+
+  const handleCancel = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
   const handleDragOver = useCallback((event: React.DragEvent) => {
     event.preventDefault();
     event.stopPropagation();
@@ -58,23 +119,18 @@ export function FileUpload({ onDataLoaded }: FileUploadProps) {
     async (event: React.DragEvent) => {
       event.preventDefault();
       event.stopPropagation();
+      if (isLoading) return;
 
-      const file = event.dataTransfer.files?.[0];
-      if (!file) return;
-
-      if (!file.name.endsWith('.zip')) {
-        setError('Please upload a .zip file');
-        return;
-      }
-
-      // Create a synthetic event to reuse the handler
-      const syntheticEvent = {
-        target: { files: [file] },
-      } as unknown as React.ChangeEvent<HTMLInputElement>;
-
-      await handleFileChange(syntheticEvent);
+      // Reading a dropped folder can fail, e.g. on files the browser is not allowed to read
+      const dropped = await getDroppedFiles(event.dataTransfer).catch((err) => {
+        setError(
+          `Failed to read the dropped files: ${err instanceof Error ? err.message : String(err)}`
+        );
+        return null;
+      });
+      if (dropped && dropped.files.length > 0) await loadFiles(dropped.files, dropped.folderName);
     },
-    [handleFileChange]
+    [isLoading, loadFiles]
   );
 
   return (
@@ -86,7 +142,8 @@ export function FileUpload({ onDataLoaded }: FileUploadProps) {
       >
         <input
           type="file"
-          accept=".zip"
+          accept=".zip,.txt"
+          multiple
           onChange={handleFileChange}
           disabled={isLoading}
           id="gtfs-file-input"
@@ -98,19 +155,95 @@ export function FileUpload({ onDataLoaded }: FileUploadProps) {
             <>
               <span className="upload-icon">📁</span>
               <span className="upload-text">
-                Drop GTFS ZIP file here or click to browse
+                Drop a GTFS ZIP file, a folder or .txt files here, or click to browse
               </span>
             </>
           )}
         </label>
       </div>
 
+      <div className="feed-source-options">
+        <input
+          type="file"
+          // Not in React's input attributes, set on the element instead
+          ref={(el) => el?.setAttribute('webkitdirectory', '')}
+          onChange={handleFileChange}
+          disabled={isLoading}
+          id="gtfs-folder-input"
+        />
+        <label htmlFor="gtfs-folder-input" className={isLoading ? 'disabled' : ''}>
+          Choose a folder
+        </label>
+
+        <form className="feed-url-form" onSubmit={handleURLSubmit}>
+          <input
+            type="url"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="https://example.com/gtfs.zip"
+            disabled={isLoading}
+            aria-label="GTFS ZIP URL"
+          />
+          <button type="submit" disabled={isLoading || !url.trim()}>
+            Load URL
+          </button>
+        </form>
+      </div>
+
+      <label className="keep-zip-option">
+        <input
+          type="checkbox"
+          checked={keepZip}
+          onChange={(e) => {
+            setKeepZip(e.target.checked);
+            localStorage.setItem(KEEP_ZIP_STORAGE_KEY, String(e.target.checked));
+          }}
+          disabled={isLoading}
+        />
+        Also keep the original ZIP in the feed library, using as much browser storage as the file
+      </label>
+
+      {isLoading && (
+        <div className="parse-progress">
+          <div className="parse-progress-header">
+            <span className="parse-progress-file">
+              {progress
+                ? `${progress.fileName} (${progress.fileIndex + 1}/${progress.fileCount})`
+                : 'Reading GTFS files...'}
+            </span>
+            <button className="cancel-btn" onClick={handleCancel}>
+              Cancel
+            </button>
+          </div>
+          <div
+            className="progress-bar"
+            role="progressbar"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={Math.round(getOverallPercent(progress))}
+          >
+            <div
+              className="progress-bar-fill"
+              style={{ width: `${getOverallPercent(progress)}%` }}
+            />
+          </div>
+          {progress && (
+            <div className="parse-progress-details">
+              {formatBytes(progress.bytesRead)}
+              {progress.totalBytes > 0 && ` of ${formatBytes(progress.totalBytes)}`}
+              {' · '}
+              {progress.rowsParsed.toLocaleString()} rows
+            </div>
+          )}
+        </div>
+      )}
+
       {fileName && !error && (
         <div className="file-info">
           <strong>Loaded:</strong> {fileName}
           {fileList.length > 0 && (
             <details>
-              <summary>Files in ZIP ({fileList.length})</summary>
+              <summary>Files ({fileList.length})</summary>
               <ul className="file-list">
                 {fileList.map((f) => (
                   <li key={f} className={f.includes('calendar') ? 'highlight' : ''}>
@@ -127,3 +260,9 @@ export function FileUpload({ onDataLoaded }: FileUploadProps) {
     </div>
   );
 }
+
+// Overall progress across all files, each file weighted equally
+function getOverallPercent(progress: ParseProgress | null): number {
+  if (!progress || progress.fileCount === 0) return 0;
+  return ((progress.fileIndex + progress.percent / 100) / progress.fileCount) * 100;
+}
@@ -0,0 +1,138 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import type { GTFSRoute, ServiceIndex } from '../types/gtfs';
+import { getRouteCalendar, parseGTFSDate } from '../utils/calendarService';
+
+interface RouteCalendarProps {
+  serviceIndex: ServiceIndex;
+  selectedDate: string | null; // YYYYMMDD
+  onDateSelect: (dateString: string) => void;
+}
+
+// Route label as shown in the trips list
+function getRouteLabel(route: GTFSRoute): string {
+  const names = [route.route_short_name, route.route_long_name].filter(Boolean).join(' - ');
+  return names || route.route_id;
+}
+
+export function RouteCalendar({ serviceIndex, selectedDate, onDateSelect }: RouteCalendarProps) {
+  const routes = useMemo(
+    () =>
+      [...serviceIndex.data.routes].sort((a, b) =>
+        getRouteLabel(a).localeCompare(getRouteLabel(b), undefined, { numeric: true })
+      ),
+    [serviceIndex]
+  );
+
+  const [routeId, setRouteId] = useState<string | null>(null);
+  const [onlyWithoutTrips, setOnlyWithoutTrips] = useState(false);
+
+  // Fall back to the first route when none is picked or the feed changed
+  const selectedRouteId =
+    routeId !== null && routes.some((r) => r.route_id === routeId)
+      ? routeId
+      : (routes[0]?.route_id ?? null);
+
+  const days = useMemo(
+    () => (selectedRouteId !== null ? getRouteCalendar(serviceIndex, selectedRouteId) : []),
+    [serviceIndex, selectedRouteId]
+  );
+
+  const operatingDays = days.filter((day) => day.tripCount > 0).length;
+  const totalTrips = days.reduce((sum, day) => sum + day.tripCount, 0);
+  const serviceIds = new Set(days.flatMap((day) => day.serviceIds));
+  const hasNoDirection = days.some((day) => day.noDirectionCount > 0);
+  const visibleDays = onlyWithoutTrips ? days.filter((day) => day.tripCount === 0) : days;
+
+  if (routes.length === 0) {
+    return (
+      <div className="route-calendar empty">
+        <p className="empty-message">No routes in this feed</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="route-calendar">
+      <div className="route-calendar-controls">
+        <label htmlFor="route-calendar-select">Route:</label>
+        <select
+          id="route-calendar-select"
+          value={selectedRouteId ?? ''}
+          onChange={(e) => setRouteId(e.target.value)}
+        >
+          {routes.map((route) => (
+            <option key={route.route_id} value={route.route_id}>
+              {getRouteLabel(route)}
+            </option>
+          ))}
+        </select>
+        <label>
+          <input
+            type="checkbox"
+            checked={onlyWithoutTrips}
+            onChange={(e) => setOnlyWithoutTrips(e.target.checked)}
+          />
+          Only days without trips
+        </label>
+      </div>
+
+      <div className="day-summary">
+        <div className="summary-item active">
+          <span className="number">{operatingDays}</span>
+          <span className="label">Operating Days</span>
+        </div>
+        <div className="summary-item excluded">
+          <span className="number">{days.length - operatingDays}</span>
+          <span className="label">Days Without Trips</span>
+        </div>
+        <div className="summary-item trips">
+          <span className="number">{totalTrips.toLocaleString()}</span>
+          <span className="label">Trips Over the Range</span>
+        </div>
+        <div className="summary-item base">
+          <span className="number">{serviceIds.size}</span>
+          <span className="label">Contributing Services</span>
+        </div>
+      </div>
+
+      <div className="route-calendar-table-wrapper">
+        <table className="route-calendar-table">
+          <thead>
+            <tr>
+              <th>Date</th>
+              <th>Trips</th>
+              <th>Outbound</th>
+              <th>Inbound</th>
+              {hasNoDirection && <th>No direction</th>}
+              <th>Services</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visibleDays.map((day) => (
+              <tr
+                key={day.dateString}
+                className={`${day.tripCount === 0 ? 'no-trips' : ''} ${
+                  day.dateString === selectedDate ? 'selected' : ''
+                }`}
+              >
+                <td>
+                  <button className="date-link" onClick={() => onDateSelect(day.dateString)}>
+                    {format(parseGTFSDate(day.dateString), 'EEE MMM d, yyyy')}
+                  </button>
+                </td>
+                <td>{day.tripCount}</td>
+                <td>{day.outboundCount}</td>
+                <td>{day.inboundCount}</td>
+                {hasNoDirection && <td>{day.noDirectionCount}</td>}
+                <td className="service-id">
+                  {day.tripCount === 0 ? 'Does not run' : day.serviceIds.join(', ')}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
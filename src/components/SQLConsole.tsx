@@ -0,0 +1,202 @@
+import { useState } from 'react';
+import type { Database, SqlValue } from 'sql.js';
+import type { ServiceIndex } from '../types/gtfs';
+import type { QueryResult } from '../utils/gtfsDatabase';
+import { activeServicesQuery, runQuery } from '../utils/gtfsDatabase';
+import { fromDateInputValue, isValidGTFSDate, toDateInputValue } from '../utils/calendarService';
+import { downloadTextFile, formatCSV, getBaseName } from '../utils/fileExport';
+
+interface SQLConsoleProps {
+  serviceIndex: ServiceIndex;
+  db: Database | null; // Built by App when the feed loads, null until ready
+  loadError: string | null;
+  selectedDate: string | null; // YYYYMMDD, default value of :date
+}
+
+// Rows rendered per result, the CSV export always has all of them
+const MAX_DISPLAY_ROWS = 500;
+
+const exampleQueries: { label: string; sql: string }[] = [
+  {
+    label: 'Tables and row counts',
+    sql: `SELECT 'agency' AS table_name, COUNT(*) AS row_count FROM agency
+UNION ALL SELECT 'calendar', COUNT(*) FROM calendar
+UNION ALL SELECT 'calendar_dates', COUNT(*) FROM calendar_dates
+UNION ALL SELECT 'routes', COUNT(*) FROM routes
+UNION ALL SELECT 'trips', COUNT(*) FROM trips
+UNION ALL SELECT 'trip_stop_times', COUNT(*) FROM trip_stop_times`,
+  },
+  { label: 'Services active on :date', sql: activeServicesQuery },
+  {
+    label: 'Trips per route on :date',
+    sql: `SELECT r.route_id, r.route_short_name, r.route_long_name, COUNT(*) AS trips
+FROM trips t JOIN routes r ON r.route_id = t.route_id
+WHERE t.service_id IN (${activeServicesQuery})
+GROUP BY r.route_id
+ORDER BY trips DESC`,
+  },
+  {
+    label: 'Trips and routes per calendar',
+    sql: `SELECT c.service_id, c.start_date, c.end_date,
+  c.monday || c.tuesday || c.wednesday || c.thursday || c.friday || c.saturday || c.sunday AS days,
+  COUNT(t.trip_id) AS trips, COUNT(DISTINCT t.route_id) AS routes
+FROM calendar c LEFT JOIN trips t ON t.service_id = c.service_id
+GROUP BY c.rowid
+ORDER BY c.start_date, c.service_id`,
+  },
+  {
+    label: 'Exceptions per date',
+    sql: `SELECT date,
+  SUM(exception_type = 1) AS added,
+  SUM(exception_type = 2) AS removed
+FROM calendar_dates
+GROUP BY date
+ORDER BY date`,
+  },
+];
+
+function toCSVValue(value: SqlValue): string | number | null {
+  return value instanceof Uint8Array ? `[${value.length} bytes]` : value;
+}
+
+export function SQLConsole({ serviceIndex, db, loadError, selectedDate }: SQLConsoleProps) {
+  const [sql, setSql] = useState(exampleQueries[0].sql);
+  const [date, setDate] = useState(
+    () => selectedDate ?? serviceIndex.dateRange?.start ?? '20000101'
+  );
+  const [results, setResults] = useState<QueryResult[] | null>(null);
+  const [queryError, setQueryError] = useState<string | null>(null);
+  const [duration, setDuration] = useState<number | null>(null);
+
+  const handleRun = () => {
+    if (!db) return;
+    const startedAt = performance.now();
+    try {
+      setResults(runQuery(db, sql, { ':date': date }));
+      setQueryError(null);
+    } catch (err) {
+      setResults(null);
+      setQueryError(err instanceof Error ? err.message : 'Query failed');
+    }
+    setDuration(performance.now() - startedAt);
+  };
+
+  const handleExport = (result: QueryResult, index: number) => {
+    const suffix = results && results.length > 1 ? `-${index + 1}` : '';
+    downloadTextFile(
+      formatCSV(result.columns, result.rows.map((row) => row.map(toCSVValue))),
+      `${getBaseName(serviceIndex.data.source.fileName)}-query${suffix}.csv`,
+      'text/csv'
+    );
+  };
+
+  if (loadError) {
+    return <div className="error-message">{loadError}</div>;
+  }
+
+  if (!db) {
+    return <p className="loading-text">Loading the feed into SQLite...</p>;
+  }
+
+  return (
+    <div className="sql-console">
+      <div className="sql-console-controls">
+        <select
+          value=""
+          onChange={(e) => e.target.value && setSql(e.target.value)}
+          aria-label="Example queries"
+        >
+          <option value="">Example queries...</option>
+          {exampleQueries.map((example) => (
+            <option key={example.label} value={example.sql}>
+              {example.label}
+            </option>
+          ))}
+        </select>
+        <label>
+          :date
+          <input
+            type="date"
+            value={toDateInputValue(date)}
+            onChange={(e) => {
+              const dateString = fromDateInputValue(e.target.value);
+              if (isValidGTFSDate(dateString)) setDate(dateString);
+            }}
+          />
+        </label>
+        <button className="run-btn" onClick={handleRun}>
+          Run
+        </button>
+        <span className="sql-console-hint">Ctrl+Enter to run</span>
+      </div>
+
+      <textarea
+        className="sql-editor"
+        value={sql}
+        onChange={(e) => setSql(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+            e.preventDefault();
+            handleRun();
+          }
+        }}
+        rows={8}
+        spellCheck={false}
+        aria-label="SQL query"
+      />
+
+      <p className="sql-console-tables">
+        Tables: <code>agency</code>, <code>calendar</code>, <code>calendar_dates</code>,{' '}
+        <code>routes</code>, <code>trips</code>, <code>trip_stop_times</code> (one row per trip,
+        times in seconds). Dates are <code>YYYYMMDD</code> text.
+      </p>
+
+      {queryError && <div className="error-message">{queryError}</div>}
+
+      {results && (
+        <div className="sql-results">
+          <p className="sql-results-info">
+            {results.length === 0
+              ? 'Statement executed, no rows returned'
+              : `${results.length} result${results.length !== 1 ? 's' : ''}`}
+            {duration !== null && ` in ${duration.toFixed(0)} ms`}
+          </p>
+          {results.map((result, index) => (
+            <div key={index} className="sql-result">
+              <div className="sql-result-header">
+                <span>
+                  {result.rows.length.toLocaleString()} row{result.rows.length !== 1 ? 's' : ''}
+                  {result.rows.length > MAX_DISPLAY_ROWS &&
+                    `, showing the first ${MAX_DISPLAY_ROWS}`}
+                </span>
+                <button onClick={() => handleExport(result, index)}>Export CSV</button>
+              </div>
+              <div className="route-calendar-table-wrapper">
+                <table className="route-calendar-table">
+                  <thead>
+                    <tr>
+                      {result.columns.map((column, i) => (
+                        <th key={i}>{column}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.rows.slice(0, MAX_DISPLAY_ROWS).map((row, rowIndex) => (
+                      <tr key={rowIndex}>
+                        {row.map((value, i) => (
+                          <td key={i} className={value === null ? 'sql-null' : ''}>
+                            {value === null ? 'NULL' : String(toCSVValue(value))}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
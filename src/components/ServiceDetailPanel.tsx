@@ -0,0 +1,217 @@
+import { useMemo } from 'react';
+import { format } from 'date-fns';
+import type { GTFSCalendarDate, ServiceIndex } from '../types/gtfs';
+import { DaysOfWeek } from './CalendarList';
+import {
+  addDaysToGTFSDate,
+  eachGTFSDate,
+  eachGTFSMonth,
+  formatGTFSDateLabel,
+  getGTFSDayOfWeek,
+  getGTFSMonthStart,
+  getServiceDetail,
+  parseGTFSDate,
+} from '../utils/calendarService';
+
+interface ServiceDetailPanelProps {
+  serviceIndex: ServiceIndex;
+  serviceId: string;
+  selectedDate: string | null; // YYYYMMDD
+  onDateSelect: (dateString: string) => void;
+  onClose: () => void;
+}
+
+const weekDays = ['M', 'T', 'W', 'T', 'F', 'S', 'S'];
+
+export function ServiceDetailPanel({
+  serviceIndex,
+  serviceId,
+  selectedDate,
+  onDateSelect,
+  onClose,
+}: ServiceDetailPanelProps) {
+  const detail = useMemo(
+    () => getServiceDetail(serviceIndex, serviceId),
+    [serviceIndex, serviceId]
+  );
+
+  const activeDates = useMemo(() => new Set(detail.activeDates), [detail]);
+
+  // The first exception of a date wins, as when resolving active services
+  const exceptionTypes = useMemo(() => {
+    const types = new Map<string, 1 | 2>();
+    for (const cd of detail.exceptions) {
+      if (!types.has(cd.date)) types.set(cd.date, cd.exception_type);
+    }
+    return types;
+  }, [detail]);
+
+  const addedCount = detail.exceptions.filter((cd) => cd.exception_type === 1).length;
+  const removedCount = detail.exceptions.filter((cd) => cd.exception_type === 2).length;
+  const range = serviceIndex.dateRange;
+  const months = range ? eachGTFSMonth(range.start, range.end) : [];
+
+  return (
+    <div className="service-detail">
+      <div className="service-detail-header">
+        <h3>
+          Service <span className="service-id">{serviceId}</span>
+        </h3>
+        <button className="clear-btn" onClick={onClose}>
+          Close
+        </button>
+      </div>
+
+      <div className="day-summary">
+        <div className="summary-item active">
+          <span className="number">{detail.activeDates.length.toLocaleString()}</span>
+          <span className="label">Operating Days</span>
+        </div>
+        <div className="summary-item trips">
+          <span className="number">{detail.tripCount.toLocaleString()}</span>
+          <span className="label">Trips</span>
+        </div>
+        <div className="summary-item base">
+          <span className="number">{detail.routes.length}</span>
+          <span className="label">Routes</span>
+        </div>
+        <div className="summary-item excluded">
+          <span className="number">
+            +{addedCount} / -{removedCount}
+          </span>
+          <span className="label">Exceptions</span>
+        </div>
+      </div>
+
+      <div className="service-detail-patterns">
+        {detail.calendars.length === 0 ? (
+          <span className="exception-only">Exception-only service (no regular schedule)</span>
+        ) : (
+          detail.calendars.map((calendar, index) => (
+            <div key={index} className="calendar-item-details">
+              <DaysOfWeek calendar={calendar} />
+              <div className="date-range">
+                <span className="label">Valid:</span>
+                <span className="dates">
+                  {formatGTFSDateLabel(calendar.start_date, 'MMM d, yyyy')} -{' '}
+                  {formatGTFSDateLabel(calendar.end_date, 'MMM d, yyyy')}
+                </span>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="service-calendar-legend">
+        <span className="service-day active">Runs</span>
+        <span className="service-day added">Added by exception</span>
+        <span className="service-day removed">Removed by exception</span>
+        <span className="service-day">Does not run</span>
+      </div>
+
+      <div className="service-calendar">
+        {months.map((month) => {
+          const days = eachGTFSDate(month, addDaysToGTFSDate(getGTFSMonthStart(month, 1), -1));
+          const startOffset = (getGTFSDayOfWeek(month) + 6) % 7;
+
+          return (
+            <div key={month} className="service-calendar-month">
+              <h4>{format(parseGTFSDate(month), 'MMM yyyy')}</h4>
+              <div className="service-calendar-grid">
+                {weekDays.map((day, i) => (
+                  <span key={i} className="service-calendar-weekday">
+                    {day}
+                  </span>
+                ))}
+                {Array.from({ length: startOffset }).map((_, i) => (
+                  <span key={`empty-${i}`} />
+                ))}
+                {days.map((day) => {
+                  const exceptionType = exceptionTypes.get(day);
+                  const status =
+                    exceptionType === 1 ? 'added' : exceptionType === 2 ? 'removed' : '';
+
+                  return (
+                    <button
+                      key={day}
+                      className={`service-day ${activeDates.has(day) ? 'active' : ''} ${status} ${
+                        day === selectedDate ? 'selected' : ''
+                      }`}
+                      onClick={() => onDateSelect(day)}
+                      title={format(parseGTFSDate(day), 'EEE MMM d, yyyy')}
+                    >
+                      {Number(day.slice(6, 8))}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="service-detail-lists">
+        <div>
+          <h4>Exceptions ({detail.exceptions.length})</h4>
+          {detail.exceptions.length === 0 ? (
+            <p className="empty-message">No calendar_dates.txt entries</p>
+          ) : (
+            <ul>
+              {detail.exceptions.map((cd, index) => (
+                <li key={index}>
+                  <ExceptionBadge exception={cd} />{' '}
+                  {formatGTFSDateLabel(cd.date, 'EEE MMM d, yyyy')}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div>
+          <h4>Routes ({detail.routes.length})</h4>
+          {detail.routes.length === 0 ? (
+            <p className="empty-message">No trips use this service</p>
+          ) : (
+            <ul>
+              {detail.routes.map((usage) => (
+                <li key={usage.route_id}>
+                  <span
+                    className="route-badge"
+                    style={{
+                      backgroundColor: usage.route?.route_color
+                        ? `#${usage.route.route_color}`
+                        : undefined,
+                      color: usage.route?.route_text_color
+                        ? `#${usage.route.route_text_color}`
+                        : undefined,
+                    }}
+                  >
+                    {usage.route?.route_short_name || usage.route_id}
+                  </span>{' '}
+                  {usage.route?.route_long_name || ''}
+                  <span className="trip-count">{usage.tripCount} trips</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ADDED for 1, REMOVED for 2, INVALID for any other exception_type as the validator reports it
+function ExceptionBadge({ exception }: { exception: GTFSCalendarDate }) {
+  if (exception.exception_type === 1) {
+    return <span className="exception-badge added">ADDED</span>;
+  }
+  if (exception.exception_type === 2) {
+    return <span className="exception-badge removed">REMOVED</span>;
+  }
+  const written = exception.invalidFields?.exception_type ?? String(exception.exception_type);
+  return (
+    <span className="exception-badge invalid" title={`exception_type "${written}" is not 1 or 2`}>
+      INVALID
+    </span>
+  );
+}
@@ -0,0 +1,146 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import type { DateCoverage } from '../types/gtfs';
+import {
+  addDaysToGTFSDate,
+  eachGTFSDate,
+  eachGTFSMonth,
+  getGTFSDayOfWeek,
+  getGTFSMonthStart,
+  parseGTFSDate,
+} from '../utils/calendarService';
+
+type HeatmapMetric = 'tripCount' | 'serviceCount';
+
+// Number of colored levels above zero
+const HEATMAP_LEVELS = 4;
+
+interface ServiceHeatmapProps {
+  range: { start: string; end: string }; // YYYYMMDD
+  coverageByDate: Map<string, DateCoverage>;
+  availableDates: ReadonlySet<string>; // Dates that can be selected
+  selectedDates: ReadonlySet<string>; // YYYYMMDD
+  onDateSelect: (dateString: string) => void;
+}
+
+// Color level of a count, 0 for no service and 1..HEATMAP_LEVELS relative to the busiest day
+function getLevel(count: number, max: number): number {
+  if (count <= 0 || max <= 0) return 0;
+  return Math.max(1, Math.ceil((count / max) * HEATMAP_LEVELS));
+}
+
+export function ServiceHeatmap({
+  range,
+  coverageByDate,
+  availableDates,
+  selectedDates,
+  onDateSelect,
+}: ServiceHeatmapProps) {
+  const [metric, setMetric] = useState<HeatmapMetric>('tripCount');
+  const [hoveredDate, setHoveredDate] = useState<string | null>(null);
+
+  // One block per month of the feed range
+  const months = useMemo(() => eachGTFSMonth(range.start, range.end), [range]);
+
+  const max = useMemo(() => {
+    let highest = 0;
+    for (const coverage of coverageByDate.values()) {
+      highest = Math.max(highest, coverage[metric]);
+    }
+    return highest;
+  }, [coverageByDate, metric]);
+
+  const unit = metric === 'tripCount' ? 'trips' : 'services';
+  const hovered = hoveredDate ? coverageByDate.get(hoveredDate) : undefined;
+
+  // Lower bound of each level, for the legend
+  const legend = Array.from({ length: HEATMAP_LEVELS + 1 }, (_, level) =>
+    level === 0 ? '0' : `${Math.floor(((level - 1) / HEATMAP_LEVELS) * max) + 1}+`
+  );
+
+  return (
+    <div className="service-heatmap">
+      <div className="heatmap-toolbar">
+        <div className="mode-toggle" role="group" aria-label="Heatmap metric">
+          <button
+            className={metric === 'tripCount' ? 'selected' : ''}
+            onClick={() => setMetric('tripCount')}
+          >
+            Trips
+          </button>
+          <button
+            className={metric === 'serviceCount' ? 'selected' : ''}
+            onClick={() => setMetric('serviceCount')}
+          >
+            Services
+          </button>
+        </div>
+
+        <div className="heatmap-legend">
+          {legend.map((label, level) => (
+            <span key={level} className="heatmap-legend-item">
+              <span className={`heatmap-swatch level-${level}`} />
+              {label}
+            </span>
+          ))}
+          <span className="heatmap-legend-unit">{unit} per day</span>
+        </div>
+      </div>
+
+      <div className="heatmap-hover">
+        {hoveredDate ? (
+          <>
+            <strong>{format(parseGTFSDate(hoveredDate), 'EEE MMM d, yyyy')}</strong>
+            {hovered
+              ? ` · ${hovered.tripCount.toLocaleString()} trips · ${hovered.serviceCount} active services`
+              : ' · outside the feed range'}
+            {hovered && !availableDates.has(hoveredDate) && ' · not selectable'}
+          </>
+        ) : (
+          'Hover a day for details, click to select it'
+        )}
+      </div>
+
+      <div className="heatmap-months">
+        {months.map((month) => {
+          const days = eachGTFSDate(month, addDaysToGTFSDate(getGTFSMonthStart(month, 1), -1));
+          // Monday-first offset, as in the month view
+          const startOffset = (getGTFSDayOfWeek(month) + 6) % 7;
+
+          return (
+            <div key={month} className="heatmap-month">
+              <h4>{format(parseGTFSDate(month), 'MMM yyyy')}</h4>
+              <div className="heatmap-grid">
+                {Array.from({ length: startOffset }).map((_, i) => (
+                  <span key={`empty-${i}`} className="heatmap-cell empty" />
+                ))}
+                {days.map((day) => {
+                  const coverage = coverageByDate.get(day);
+                  const isAvailable = availableDates.has(day);
+                  const level = coverage ? getLevel(coverage[metric], max) : 0;
+
+                  // Not disabled, so unavailable days still show their details on hover
+                  return (
+                    <button
+                      key={day}
+                      className={`heatmap-cell level-${level} ${
+                        isAvailable ? 'available' : 'unavailable'
+                      } ${selectedDates.has(day) ? 'selected' : ''}`}
+                      aria-disabled={!isAvailable}
+                      onClick={() => isAvailable && onDateSelect(day)}
+                      onMouseEnter={() => setHoveredDate(day)}
+                      onMouseLeave={() => setHoveredDate(null)}
+                      aria-label={`${format(parseGTFSDate(day), 'MMM d, yyyy')}: ${
+                        coverage ? coverage[metric] : 0
+                      } ${unit}`}
+                    />
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,275 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import type { ServiceIndex, ServiceTimelineRow } from '../types/gtfs';
+import { DaysOfWeek } from './CalendarList';
+import {
+  addDaysToGTFSDate,
+  diffGTFSDates,
+  eachGTFSMonth,
+  getFeedToday,
+  getServiceTimeline,
+  isValidGTFSDate,
+  parseGTFSDate,
+} from '../utils/calendarService';
+
+type SortKey = 'service' | 'start' | 'end' | 'activeDays' | 'trips' | 'exceptions';
+type SortOrder = 'asc' | 'desc';
+type TimelineFilter = 'all' | 'withoutTrips' | 'neverActive' | 'exceptionOnly' | 'withExceptions';
+
+const sortLabels: Record<SortKey, string> = {
+  service: 'Service ID',
+  start: 'Start date',
+  end: 'End date',
+  activeDays: 'Operating days',
+  trips: 'Trips',
+  exceptions: 'Exceptions',
+};
+
+const filterLabels: Record<TimelineFilter, string> = {
+  all: 'All services',
+  withoutTrips: 'Without trips',
+  neverActive: 'Never active',
+  exceptionOnly: 'Exception-only',
+  withExceptions: 'With exceptions',
+};
+
+// Label every month up to this span, only Januaries beyond it
+const MAX_LABELED_MONTHS = 18;
+
+interface ServiceTimelineProps {
+  serviceIndex: ServiceIndex;
+  onDateSelect: (dateString: string) => void;
+}
+
+function matchesFilter(row: ServiceTimelineRow, filter: TimelineFilter): boolean {
+  switch (filter) {
+    case 'withoutTrips':
+      return row.tripCount === 0;
+    case 'neverActive':
+      return row.activeDayCount === 0;
+    case 'exceptionOnly':
+      return row.calendars.length === 0;
+    case 'withExceptions':
+      return row.exceptions.length > 0;
+    default:
+      return true;
+  }
+}
+
+// Sort value of a row, rows without a span sort last
+function compareRows(a: ServiceTimelineRow, b: ServiceTimelineRow, key: SortKey): number {
+  switch (key) {
+    case 'start':
+    case 'end': {
+      const aDate = a[key];
+      const bDate = b[key];
+      if (aDate === bDate) return 0;
+      if (aDate === null) return 1;
+      if (bDate === null) return -1;
+      return aDate.localeCompare(bDate);
+    }
+    case 'activeDays':
+      return a.activeDayCount - b.activeDayCount;
+    case 'trips':
+      return a.tripCount - b.tripCount;
+    case 'exceptions':
+      return a.exceptions.length - b.exceptions.length;
+    default:
+      return a.serviceId.localeCompare(b.serviceId, undefined, { numeric: true });
+  }
+}
+
+export function ServiceTimeline({ serviceIndex, onDateSelect }: ServiceTimelineProps) {
+  const rows = useMemo(() => getServiceTimeline(serviceIndex), [serviceIndex]);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [filter, setFilter] = useState<TimelineFilter>('all');
+  const [sortKey, setSortKey] = useState<SortKey>('start');
+  const [sortOrder, setSortOrder] = useState<SortOrder>('asc');
+
+  // The axis covers every span, so leftovers outside the feed range still show
+  const axis = useMemo(() => {
+    const bounds = rows
+      .flatMap((row) => [row.start, row.end])
+      .filter((date): date is string => date !== null)
+      .sort();
+    if (bounds.length === 0) return null;
+    const start = bounds[0];
+    const end = bounds[bounds.length - 1];
+    return { start, end, days: diffGTFSDates(start, end) + 1 };
+  }, [rows]);
+
+  const visibleRows = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    const filtered = rows.filter(
+      (row) => matchesFilter(row, filter) && (!term || row.serviceId.toLowerCase().includes(term))
+    );
+    return filtered.sort((a, b) => {
+      const comparison =
+        compareRows(a, b, sortKey) ||
+        a.serviceId.localeCompare(b.serviceId, undefined, { numeric: true });
+      return sortOrder === 'asc' ? comparison : -comparison;
+    });
+  }, [rows, searchTerm, filter, sortKey, sortOrder]);
+
+  if (!axis) {
+    return (
+      <div className="service-timeline empty">
+        <p className="empty-message">No dated services in this feed</p>
+      </div>
+    );
+  }
+
+  // Left offset of a day, in percent of the axis
+  const position = (dateString: string) =>
+    (diffGTFSDates(axis.start, dateString) / axis.days) * 100;
+
+  const months = eachGTFSMonth(axis.start, axis.end);
+  const labelEveryMonth = months.length <= MAX_LABELED_MONTHS;
+  const today = getFeedToday(serviceIndex);
+  const showToday = today >= axis.start && today <= axis.end;
+
+  return (
+    <div className="service-timeline">
+      <div className="timeline-controls">
+        <input
+          type="text"
+          placeholder="Filter by service_id..."
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          className="search-input"
+        />
+        <select value={filter} onChange={(e) => setFilter(e.target.value as TimelineFilter)}>
+          {(Object.keys(filterLabels) as TimelineFilter[]).map((key) => (
+            <option key={key} value={key}>
+              {filterLabels[key]}
+            </option>
+          ))}
+        </select>
+        <label>
+          Sort by{' '}
+          <select value={sortKey} onChange={(e) => setSortKey(e.target.value as SortKey)}>
+            {(Object.keys(sortLabels) as SortKey[]).map((key) => (
+              <option key={key} value={key}>
+                {sortLabels[key]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button onClick={() => setSortOrder((prev) => (prev === 'asc' ? 'desc' : 'asc'))}>
+          {sortOrder === 'asc' ? '↑ Ascending' : '↓ Descending'}
+        </button>
+        <span className="timeline-count">
+          {visibleRows.length} of {rows.length} services
+        </span>
+      </div>
+
+      <div className="service-calendar-legend">
+        <span className="timeline-legend-bar" /> calendar.txt span
+        <span className="timeline-marker added" /> Added
+        <span className="timeline-marker removed" /> Removed
+        {showToday && (
+          <>
+            <span className="timeline-legend-today" /> Today
+          </>
+        )}
+      </div>
+
+      <div className="timeline">
+        <div className="timeline-row timeline-axis">
+          <div className="timeline-label" />
+          <div className="timeline-track">
+            {months.map((month) => {
+              const isLabeled = labelEveryMonth || month.slice(4, 6) === '01';
+              return (
+                <span
+                  key={month}
+                  className="timeline-month"
+                  style={{ left: `${Math.max(0, position(month))}%` }}
+                >
+                  {isLabeled &&
+                    format(parseGTFSDate(month), labelEveryMonth ? 'MMM yy' : 'yyyy')}
+                </span>
+              );
+            })}
+          </div>
+        </div>
+
+        {visibleRows.map((row) => (
+          <div
+            key={row.serviceId}
+            className={`timeline-row ${
+              row.tripCount === 0 || row.activeDayCount === 0 ? 'leftover' : ''
+            }`}
+          >
+            <div className="timeline-label">
+              <span className="service-id" title={row.serviceId}>
+                {row.serviceId}
+              </span>
+              <div className="timeline-meta">
+                {row.calendars.length > 0 ? (
+                  row.calendars.map((calendar, index) => (
+                    <DaysOfWeek key={index} calendar={calendar} />
+                  ))
+                ) : (
+                  <span className="exception-only">Exception-only</span>
+                )}
+                <span>
+                  {row.activeDayCount} days · {row.tripCount} trips
+                </span>
+              </div>
+            </div>
+            <div className="timeline-track">
+              {showToday && (
+                <span className="timeline-today" style={{ left: `${position(today)}%` }} />
+              )}
+              {row.calendars
+                .filter(
+                  (calendar) =>
+                    isValidGTFSDate(calendar.start_date) && isValidGTFSDate(calendar.end_date)
+                )
+                .map((calendar, index) => {
+                  // Reversed ranges are swapped, like the service index does
+                  const start =
+                    calendar.start_date <= calendar.end_date ? calendar.start_date : calendar.end_date;
+                  const end =
+                    calendar.start_date <= calendar.end_date ? calendar.end_date : calendar.start_date;
+                  return (
+                    <span
+                      key={index}
+                      className="timeline-bar"
+                      style={{
+                        left: `${position(start)}%`,
+                        width: `${position(addDaysToGTFSDate(end, 1)) - position(start)}%`,
+                      }}
+                      title={`${format(parseGTFSDate(start), 'MMM d, yyyy')} - ${format(
+                        parseGTFSDate(end),
+                        'MMM d, yyyy'
+                      )}`}
+                    />
+                  );
+                })}
+              {row.exceptions
+                .filter((cd) => isValidGTFSDate(cd.date))
+                .map((cd, index) => (
+                  <button
+                    key={index}
+                    className={`timeline-marker ${cd.exception_type === 1 ? 'added' : 'removed'}`}
+                    style={{ left: `${position(cd.date)}%` }}
+                    onClick={() => onDateSelect(cd.date)}
+                    title={`${cd.exception_type === 1 ? 'Added' : 'Removed'} on ${format(
+                      parseGTFSDate(cd.date),
+                      'EEE MMM d, yyyy'
+                    )}`}
+                  />
+                ))}
+            </div>
+          </div>
+        ))}
+
+        {visibleRows.length === 0 && (
+          <p className="empty-message">No services match the current filters</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,25 +1,84 @@
-import { useMemo, useState } from 'react';
-import type { TripWithRoute } from '../types/gtfs';
+import { useCallback, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import type { GTFSAgency, TripSortKey, TripsListState, TripWithRoute } from '../types/gtfs';
+import { formatDuration, formatGTFSTime, parseGTFSTimeInput } from '../utils/gtfsTime';
+import { getServiceDayOffset, parseGTFSDate } from '../utils/calendarService';
+import { getAgencyColor } from '../utils/agencyService';
 
 interface TripsListProps {
   trips: TripWithRoute[];
+  agencies: GTFSAgency[]; // All agencies of the feed, for stable agency colors
+  dateString?: string; // YYYYMMDD shown, trips of another service day are timed on it
+  operatingDays?: Map<string, number>; // Multi-date selection: service_id -> selected dates it runs on
+  dateCount?: number; // Multi-date selection: number of selected dates
+  state: TripsListState; // Search, sort and expanded routes, owned by the app for deep links
+  onStateChange: (state: TripsListState) => void;
 }
 
-type SortKey = 'route' | 'trip_id' | 'headsign' | 'service';
-type SortOrder = 'asc' | 'desc';
+// Sort keys backed by stop_times.txt summaries
+const stopTimesSortKeys: TripSortKey[] = ['departure', 'arrival', 'duration', 'stops'];
 
-export function TripsList({ trips }: TripsListProps) {
-  const [searchTerm, setSearchTerm] = useState('');
-  const [sortKey, setSortKey] = useState<SortKey>('route');
-  const [sortOrder, setSortOrder] = useState<SortOrder>('asc');
-  const [expandedRoutes, setExpandedRoutes] = useState<Set<string>>(new Set());
+// Numeric value used when sorting by a stop_times column, times shifted by offset seconds
+function getStopTimesValue(
+  trip: TripWithRoute,
+  key: TripSortKey,
+  offset: number
+): number | undefined {
+  switch (key) {
+    case 'departure':
+      return shiftTime(trip.stopTimes?.departure_time, offset);
+    case 'arrival':
+      return shiftTime(trip.stopTimes?.arrival_time, offset);
+    case 'duration':
+      return trip.stopTimes?.duration;
+    case 'stops':
+      return trip.stopTimes?.stop_count;
+    default:
+      return undefined;
+  }
+}
+
+function shiftTime(seconds: number | undefined, offset: number): number | undefined {
+  return seconds === undefined ? undefined : seconds - offset;
+}
+
+// Route grouping key shared by the route headers and the filtered rows
+function getRouteKey(trip: TripWithRoute): string {
+  return trip.route?.route_short_name || trip.route?.route_long_name || trip.route_id;
+}
+
+export function TripsList({
+  trips,
+  agencies,
+  dateString,
+  operatingDays,
+  dateCount,
+  state,
+  onStateChange,
+}: TripsListProps) {
+  const { searchTerm, sortKey, sortOrder } = state;
+  const expandedRoutes = useMemo(() => new Set(state.expandedRoutes), [state.expandedRoutes]);
+  const [departureFrom, setDepartureFrom] = useState('');
+  const [departureTo, setDepartureTo] = useState('');
+
+  const hasStopTimes = useMemo(() => trips.some((trip) => trip.stopTimes), [trips]);
+  // Typed bounds in seconds after the service day start, a bound that does not parse is ignored
+  const departureFromSeconds = parseGTFSTimeInput(departureFrom, 0);
+  const departureToSeconds = parseGTFSTimeInput(departureTo, 59);
+  const hasTimeFilter = departureFromSeconds !== null || departureToSeconds !== null;
+  const isFiltering = searchTerm !== '' || hasTimeFilter;
+  // Trips of the previous service day (calendar-day mode) are sorted and filtered on the date shown
+  const getOffset = useCallback(
+    (trip: TripWithRoute) => (dateString ? getServiceDayOffset(trip, dateString) : 0),
+    [dateString]
+  );
 
   // Group trips by route
   const tripsByRoute = useMemo(() => {
     const grouped = new Map<string, TripWithRoute[]>();
 
     for (const trip of trips) {
-      const routeKey = trip.route?.route_short_name || trip.route?.route_long_name || trip.route_id;
+      const routeKey = getRouteKey(trip);
       const existing = grouped.get(routeKey) || [];
       existing.push(trip);
       grouped.set(routeKey, existing);
@@ -45,8 +104,35 @@ export function TripsList({ trips }: TripsListProps) {
       );
     }
 
+    // Departure time range, GTFS "HH:MM" so trips past midnight (24:00 and later) can be kept
+    if (hasTimeFilter) {
+      filtered = filtered.filter((trip) => {
+        const departure = shiftTime(trip.stopTimes?.departure_time, getOffset(trip));
+        if (departure === undefined) return false;
+        if (departureFromSeconds !== null && departure < departureFromSeconds) return false;
+        if (departureToSeconds !== null && departure > departureToSeconds) return false;
+        return true;
+      });
+    }
+
     // Sort
     filtered = [...filtered].sort((a, b) => {
+      if (stopTimesSortKeys.includes(sortKey)) {
+        const aNum = getStopTimesValue(a, sortKey, getOffset(a));
+        const bNum = getStopTimesValue(b, sortKey, getOffset(b));
+        // Trips without stop times always go last
+        if (aNum === undefined || bNum === undefined) {
+          return aNum === bNum ? 0 : aNum === undefined ? 1 : -1;
+        }
+        return sortOrder === 'asc' ? aNum - bNum : bNum - aNum;
+      }
+
+      if (sortKey === 'days' && operatingDays) {
+        const aDays = operatingDays.get(a.service_id) ?? 0;
+        const bDays = operatingDays.get(b.service_id) ?? 0;
+        return sortOrder === 'asc' ? aDays - bDays : bDays - aDays;
+      }
+
       let aVal: string;
       let bVal: string;
 
@@ -77,35 +163,58 @@ export function TripsList({ trips }: TripsListProps) {
     });
 
     return filtered;
-  }, [trips, searchTerm, sortKey, sortOrder]);
+  }, [
+    trips,
+    searchTerm,
+    hasTimeFilter,
+    departureFromSeconds,
+    departureToSeconds,
+    sortKey,
+    sortOrder,
+    operatingDays,
+    getOffset,
+  ]);
 
-  const handleSort = (key: SortKey) => {
+  // Filtered and sorted trips regrouped by route for the per-route tables
+  const visibleTripsByRoute = useMemo(() => {
+    const grouped = new Map<string, TripWithRoute[]>();
+    for (const trip of filteredTrips) {
+      const routeKey = getRouteKey(trip);
+      const existing = grouped.get(routeKey) || [];
+      existing.push(trip);
+      grouped.set(routeKey, existing);
+    }
+    return grouped;
+  }, [filteredTrips]);
+
+  const sortIndicator = (key: TripSortKey) =>
+    sortKey === key && (sortOrder === 'asc' ? '↑' : '↓');
+
+  const setSearchTerm = (term: string) => onStateChange({ ...state, searchTerm: term });
+
+  const handleSort = (key: TripSortKey) => {
     if (sortKey === key) {
-      setSortOrder((prev) => (prev === 'asc' ? 'desc' : 'asc'));
+      onStateChange({ ...state, sortOrder: sortOrder === 'asc' ? 'desc' : 'asc' });
     } else {
-      setSortKey(key);
-      setSortOrder('asc');
+      onStateChange({ ...state, sortKey: key, sortOrder: 'asc' });
     }
   };
 
   const toggleRoute = (routeKey: string) => {
-    setExpandedRoutes((prev) => {
-      const next = new Set(prev);
-      if (next.has(routeKey)) {
-        next.delete(routeKey);
-      } else {
-        next.add(routeKey);
-      }
-      return next;
+    onStateChange({
+      ...state,
+      expandedRoutes: expandedRoutes.has(routeKey)
+        ? state.expandedRoutes.filter((key) => key !== routeKey)
+        : [...state.expandedRoutes, routeKey],
     });
   };
 
   const expandAll = () => {
-    setExpandedRoutes(new Set(tripsByRoute.keys()));
+    onStateChange({ ...state, expandedRoutes: [...tripsByRoute.keys()] });
   };
 
   const collapseAll = () => {
-    setExpandedRoutes(new Set());
+    onStateChange({ ...state, expandedRoutes: [] });
   };
 
   // Get unique service IDs and routes
@@ -116,7 +225,9 @@ export function TripsList({ trips }: TripsListProps) {
     return (
       <div className="trips-list empty">
         <h3>Trips</h3>
-        <p className="empty-message">No trips running on this day</p>
+        <p className="empty-message">
+          {operatingDays ? 'No trips running on the selected dates' : 'No trips running on this day'}
+        </p>
       </div>
     );
   }
@@ -147,15 +258,57 @@ export function TripsList({ trips }: TripsListProps) {
             </button>
           )}
         </div>
+        {hasStopTimes && (
+          <div className="time-filter">
+            <label>
+              Departs from
+              <input
+                type="text"
+                value={departureFrom}
+                onChange={(e) => setDepartureFrom(e.target.value)}
+                placeholder="HH:MM"
+                className={departureFrom && departureFromSeconds === null ? 'invalid' : ''}
+                title="Service day time, e.g. 06:30 or 25:10 for trips after midnight"
+              />
+            </label>
+            <label>
+              to
+              <input
+                type="text"
+                value={departureTo}
+                onChange={(e) => setDepartureTo(e.target.value)}
+                placeholder="HH:MM"
+                className={departureTo && departureToSeconds === null ? 'invalid' : ''}
+                title="Service day time, e.g. 06:30 or 25:10 for trips after midnight"
+              />
+            </label>
+            {(departureFrom !== '' || departureTo !== '') && (
+              <button
+                className="clear-time-filter"
+                onClick={() => {
+                  setDepartureFrom('');
+                  setDepartureTo('');
+                }}
+              >
+                Clear
+              </button>
+            )}
+          </div>
+        )}
         <div className="view-controls">
           <button onClick={expandAll}>Expand All</button>
           <button onClick={collapseAll}>Collapse All</button>
         </div>
       </div>
 
-      {searchTerm && (
+      {isFiltering && (
         <div className="search-results-info">
-          Found {filteredTrips.length} trips matching "{searchTerm}"
+          Found {filteredTrips.length} trips
+          {searchTerm && ` matching "${searchTerm}"`}
+          {hasTimeFilter &&
+            ` departing between ${departureFromSeconds !== null ? departureFrom : 'start'} and ${
+              departureToSeconds !== null ? departureTo : 'end'
+            } of service`}
         </div>
       )}
 
@@ -164,17 +317,13 @@ export function TripsList({ trips }: TripsListProps) {
         {Array.from(tripsByRoute.entries())
           .sort(([a], [b]) => a.localeCompare(b, undefined, { numeric: true }))
           .map(([routeKey, routeTrips]) => {
-            // Filter route trips based on search
-            const visibleTrips = searchTerm
-              ? routeTrips.filter((trip) =>
-                  filteredTrips.some((ft) => ft.trip_id === trip.trip_id)
-                )
-              : routeTrips;
+            const visibleTrips = visibleTripsByRoute.get(routeKey) || [];
 
             if (visibleTrips.length === 0) return null;
 
             const isExpanded = expandedRoutes.has(routeKey);
             const routeInfo = routeTrips[0].route;
+            const agency = routeTrips[0].agency;
 
             return (
               <div key={routeKey} className="route-group">
@@ -204,6 +353,19 @@ export function TripsList({ trips }: TripsListProps) {
                   <span className="route-name">
                     {routeInfo?.route_long_name || ''}
                   </span>
+                  {agency && agencies.length > 1 && (
+                    <span
+                      className="agency-badge"
+                      style={{ borderColor: getAgencyColor(agencies, agency) }}
+                      title={agency.agency_timezone}
+                    >
+                      <span
+                        className="agency-swatch"
+                        style={{ backgroundColor: getAgencyColor(agencies, agency) }}
+                      />
+                      {agency.agency_name}
+                    </span>
+                  )}
                   <span className="trip-count">
                     {visibleTrips.length} trip{visibleTrips.length !== 1 ? 's' : ''}
                   </span>
@@ -215,23 +377,60 @@ export function TripsList({ trips }: TripsListProps) {
                       <thead>
                         <tr>
                           <th onClick={() => handleSort('trip_id')}>
-                            Trip ID {sortKey === 'trip_id' && (sortOrder === 'asc' ? '↑' : '↓')}
+                            Trip ID {sortIndicator('trip_id')}
                           </th>
                           <th onClick={() => handleSort('headsign')}>
-                            Headsign {sortKey === 'headsign' && (sortOrder === 'asc' ? '↑' : '↓')}
+                            Headsign {sortIndicator('headsign')}
                           </th>
                           <th onClick={() => handleSort('service')}>
-                            Service {sortKey === 'service' && (sortOrder === 'asc' ? '↑' : '↓')}
+                            Service {sortIndicator('service')}
                           </th>
+                          {operatingDays && (
+                            <th onClick={() => handleSort('days')}>
+                              Days {sortIndicator('days')}
+                            </th>
+                          )}
                           <th>Direction</th>
+                          {hasStopTimes && (
+                            <>
+                              <th onClick={() => handleSort('departure')}>
+                                Departs {sortIndicator('departure')}
+                              </th>
+                              <th onClick={() => handleSort('arrival')}>
+                                Arrives {sortIndicator('arrival')}
+                              </th>
+                              <th onClick={() => handleSort('duration')}>
+                                Duration {sortIndicator('duration')}
+                              </th>
+                              <th onClick={() => handleSort('stops')}>
+                                Stops {sortIndicator('stops')}
+                              </th>
+                            </>
+                          )}
                         </tr>
                       </thead>
                       <tbody>
                         {visibleTrips.map((trip) => (
-                          <tr key={trip.trip_id}>
-                            <td className="trip-id">{trip.trip_id}</td>
+                          <tr key={`${trip.serviceDate ?? ''}|${trip.trip_id}`}>
+                            <td className="trip-id">
+                              {trip.trip_id}
+                              {trip.serviceDate && (
+                                <span
+                                  className="service-date-badge"
+                                  title="Trip of the previous service day still running after midnight"
+                                >
+                                  {format(parseGTFSDate(trip.serviceDate), 'EEE MMM d')} service
+                                </span>
+                              )}
+                            </td>
                             <td className="headsign">{trip.trip_headsign || '-'}</td>
                             <td className="service-id">{trip.service_id}</td>
+                            {operatingDays && (
+                              <td className="operating-days">
+                                {operatingDays.get(trip.service_id) ?? 0}
+                                {dateCount !== undefined && ` / ${dateCount}`}
+                              </td>
+                            )}
                             <td className="direction">
                               {trip.direction_id !== undefined
                                 ? trip.direction_id === 0
@@ -239,6 +438,7 @@ export function TripsList({ trips }: TripsListProps) {
                                   : 'Inbound'
                                 : '-'}
                             </td>
+                            {hasStopTimes && <StopTimesCells trip={trip} offset={getOffset(trip)} />}
                           </tr>
                         ))}
                       </tbody>
@@ -252,3 +452,60 @@ export function TripsList({ trips }: TripsListProps) {
     </div>
   );
 }
+
+interface StopTimesCellsProps {
+  trip: TripWithRoute;
+  offset: number; // Seconds from the trip's service day to the date shown
+}
+
+function StopTimesCells({ trip, offset }: StopTimesCellsProps) {
+  const stopTimes = trip.stopTimes;
+
+  if (!stopTimes) {
+    return (
+      <>
+        <td className="time">-</td>
+        <td className="time">-</td>
+        <td className="time">-</td>
+        <td className="stops">-</td>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <td
+        className="time"
+        title={formatTimeTitle(
+          `From stop ${stopTimes.first_stop_id}`,
+          stopTimes.departure_time,
+          offset
+        )}
+      >
+        {formatShiftedTime(stopTimes.departure_time, offset)}
+      </td>
+      <td
+        className="time"
+        title={formatTimeTitle(`To stop ${stopTimes.last_stop_id}`, stopTimes.arrival_time, offset)}
+      >
+        {formatShiftedTime(stopTimes.arrival_time, offset)}
+      </td>
+      <td className="time">
+        {stopTimes.duration !== undefined ? formatDuration(stopTimes.duration) : '-'}
+      </td>
+      <td className="stops">{stopTimes.stop_count}</td>
+    </>
+  );
+}
+
+// Time on the date shown, or as written in the feed when it falls on the previous day
+function formatShiftedTime(seconds: number | undefined, offset: number): string {
+  if (seconds === undefined) return '-';
+  return formatGTFSTime(seconds >= offset ? seconds - offset : seconds);
+}
+
+// Stop of a time cell, plus the time as written in the feed when shown on another day
+function formatTimeTitle(label: string, seconds: number | undefined, offset: number): string {
+  if (seconds === undefined || offset === 0) return label;
+  return `${label}, ${formatGTFSTime(seconds)} of its service day`;
+}
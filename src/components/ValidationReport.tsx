@@ -1,15 +1,86 @@
-import { useMemo, useState } from 'react';
-import type { GTFSData } from '../types/gtfs';
-import { validateGTFSData } from '../utils/gtfsValidator';
+import { useEffect, useMemo, useState } from 'react';
+import type { DateCoverage, ServiceIndex } from '../types/gtfs';
+import {
+  applySeverities,
+  formatNotice,
+  getEffectiveSeverity,
+  runValidationRules,
+} from '../utils/gtfsValidator';
+import type { SeverityOverride, SeverityOverrides } from '../utils/gtfsValidator';
+import { validationRules } from '../utils/validationRules';
+import { downloadTextFile, getBaseName } from '../utils/fileExport';
+import {
+  buildValidationExport,
+  formatValidationCSV,
+  formatValidationHTML,
+  formatValidationJSON,
+} from '../utils/validationExport';
+
+// localStorage key for the severities chosen by the user
+const SEVERITIES_STORAGE_KEY = 'gtfs-calendar.validation-severities';
+
+const severityOptions: SeverityOverride[] = ['error', 'warning', 'info', 'off'];
+
+function loadSeverityOverrides(): SeverityOverrides {
+  try {
+    const stored = localStorage.getItem(SEVERITIES_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as SeverityOverrides) : {};
+  } catch {
+    return {};
+  }
+}
 
 interface ValidationReportProps {
-  gtfsData: GTFSData;
+  serviceIndex: ServiceIndex; // Index of the whole feed
+  coverage: DateCoverage[]; // getDateCoverage of serviceIndex
 }
 
-export function ValidationReport({ gtfsData }: ValidationReportProps) {
+export function ValidationReport({ serviceIndex, coverage }: ValidationReportProps) {
+  const gtfsData = serviceIndex.data;
   const [expandedIssues, setExpandedIssues] = useState<Set<number>>(new Set());
+  const [severities, setSeverities] = useState<SeverityOverrides>(loadSeverityOverrides);
+  const [showRules, setShowRules] = useState(false);
+
+  // Rules run once per feed, severity changes only regroup their notices
+  const run = useMemo(
+    () => runValidationRules(serviceIndex, { coverage }),
+    [serviceIndex, coverage]
+  );
+  const validation = useMemo(() => applySeverities(run, severities), [run, severities]);
+
+  const countBySeverity = (severity: string) =>
+    validation.issues.filter((issue) => issue.severity === severity).length;
 
-  const validation = useMemo(() => validateGTFSData(gtfsData), [gtfsData]);
+  useEffect(() => {
+    localStorage.setItem(SEVERITIES_STORAGE_KEY, JSON.stringify(severities));
+  }, [severities]);
+
+  const handleExport = (kind: 'json' | 'csv' | 'html') => {
+    const report = buildValidationExport(validation, gtfsData);
+    const fileName = `${getBaseName(gtfsData.source.fileName)}-validation.${kind}`;
+    if (kind === 'json') {
+      downloadTextFile(formatValidationJSON(report), fileName, 'application/json');
+    } else if (kind === 'csv') {
+      downloadTextFile(formatValidationCSV(report), fileName, 'text/csv');
+    } else {
+      downloadTextFile(formatValidationHTML(report), fileName, 'text/html');
+    }
+  };
+
+  // Only keep the severities that differ from a rule's default
+  const handleSeverityChange = (code: string, severity: SeverityOverride) => {
+    const rule = validationRules.find((r) => r.code === code);
+    setSeverities((prev) => {
+      const next = { ...prev };
+      if (rule?.severity === severity) {
+        delete next[code];
+      } else {
+        next[code] = severity;
+      }
+      return next;
+    });
+    setExpandedIssues(new Set());
+  };
 
   const toggleIssue = (index: number) => {
     setExpandedIssues((prev) => {
@@ -27,7 +98,12 @@ export function ValidationReport({ gtfsData }: ValidationReportProps) {
     <div className="validation-report">
       <h3>Data Validation</h3>
       <p className="validation-description">
-        Checking for duplicate records according to GTFS specification uniqueness constraints.
+        Checking for duplicate records according to GTFS specification uniqueness constraints,
+        references between trips, routes and services, required fields, enumerations, colors and
+        URLs in trips and routes, calendar dates and exceptions, service
+        coverage over the feed range, and malformed CSV rows found while parsing. Only issues
+        with error severity make the feed invalid; each rule can be set to another severity or
+        turned off below.
       </p>
 
       <div className="validation-stats">
@@ -37,23 +113,35 @@ export function ValidationReport({ gtfsData }: ValidationReportProps) {
         <span className="stat">{validation.stats.calendarsChecked.toLocaleString()} calendars</span>
         <span className="separator">|</span>
         <span className="stat">{validation.stats.calendarDatesChecked.toLocaleString()} calendar dates</span>
+        <span className="separator">|</span>
+        <span className="stat">{validation.stats.routesChecked.toLocaleString()} routes</span>
+      </div>
+
+      <div className="validation-export">
+        <span>Export report:</span>
+        <button onClick={() => handleExport('json')}>JSON</button>
+        <button onClick={() => handleExport('csv')}>CSV</button>
+        <button onClick={() => handleExport('html')}>HTML</button>
       </div>
 
-      {validation.isValid ? (
+      {validation.issues.length === 0 ? (
         <div className="validation-success">
           <span className="icon">✓</span>
-          <span>No duplicate records found. Data passes GTFS uniqueness constraints.</span>
+          <span>No issues found. Data passes every enabled validation rule.</span>
         </div>
       ) : (
-        <div className="validation-errors">
+        <div className={`validation-errors ${validation.isValid ? 'non-blocking' : ''}`}>
           <div className="validation-error-header">
             <span className="icon">⚠</span>
-            <span>Found {validation.issues.length} validation issue(s)</span>
+            <span>
+              Found {validation.issues.length} validation issue(s): {countBySeverity('error')}{' '}
+              error(s), {countBySeverity('warning')} warning(s), {countBySeverity('info')} info
+            </span>
           </div>
 
           <ul className="issues-list">
             {validation.issues.map((issue, index) => (
-              <li key={index} className={`issue ${issue.type}`}>
+              <li key={index} className={`issue ${issue.severity}`}>
                 <button
                   className="issue-header"
                   onClick={() => toggleIssue(index)}
@@ -61,6 +149,7 @@ export function ValidationReport({ gtfsData }: ValidationReportProps) {
                   <span className="expand-icon">
                     {expandedIssues.has(index) ? '▼' : '▶'}
                   </span>
+                  <span className="issue-code">{issue.code}</span>
                   <span className="issue-file">{issue.file}</span>
                   <span className="issue-field">[{issue.field}]</span>
                   <span className="issue-message">{issue.message}</span>
@@ -68,14 +157,16 @@ export function ValidationReport({ gtfsData }: ValidationReportProps) {
 
                 {expandedIssues.has(index) && (
                   <div className="issue-details">
-                    <p className="duplicates-header">Duplicate values:</p>
+                    <p className="duplicates-header">
+                      {issue.detailsLabel}:
+                    </p>
                     <ul className="duplicates-list">
-                      {issue.duplicates.slice(0, 50).map((dup, i) => (
-                        <li key={i}>{dup}</li>
+                      {issue.notices.slice(0, 50).map((notice, i) => (
+                        <li key={i}>{formatNotice(notice)}</li>
                       ))}
-                      {issue.duplicates.length > 50 && (
+                      {issue.notices.length > 50 && (
                         <li className="more">
-                          ... and {issue.duplicates.length - 50} more
+                          ... and {issue.notices.length - 50} more, export the report for the full list
                         </li>
                       )}
                     </ul>
@@ -87,13 +178,56 @@ export function ValidationReport({ gtfsData }: ValidationReportProps) {
         </div>
       )}
 
-      <div className="validation-spec-note">
-        <strong>GTFS Uniqueness Constraints:</strong>
-        <ul>
-          <li><code>trips.txt</code>: <code>trip_id</code> must be unique</li>
-          <li><code>calendar.txt</code>: <code>service_id</code> must be unique</li>
-          <li><code>calendar_dates.txt</code>: <code>service_id</code> + <code>date</code> combination must be unique</li>
-        </ul>
+      <div className="validation-rules">
+        <button className="rules-toggle" onClick={() => setShowRules((prev) => !prev)}>
+          <span className="expand-icon">{showRules ? '▼' : '▶'}</span>
+          Rules ({validationRules.length - validation.disabledRules.length} of{' '}
+          {validationRules.length} enabled)
+        </button>
+        {Object.keys(severities).length > 0 && (
+          <button className="rules-reset" onClick={() => setSeverities({})}>
+            Reset to defaults
+          </button>
+        )}
+
+        {showRules && (
+          <table className="rules-table">
+            <thead>
+              <tr>
+                <th>Code</th>
+                <th>Checks</th>
+                <th>Severity</th>
+              </tr>
+            </thead>
+            <tbody>
+              {validationRules.map((rule) => {
+                const severity = getEffectiveSeverity(rule, severities);
+                return (
+                  <tr key={rule.code} className={severity === 'off' ? 'disabled' : ''}>
+                    <td>
+                      <code>{rule.code}</code>
+                    </td>
+                    <td>{rule.description}</td>
+                    <td>
+                      <select
+                        value={severity}
+                        onChange={(e) =>
+                          handleSeverityChange(rule.code, e.target.value as SeverityOverride)
+                        }
+                      >
+                        {severityOptions.map((option) => (
+                          <option key={option} value={option}>
+                            {option === rule.severity ? `${option} (default)` : option}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
       </div>
     </div>
   );
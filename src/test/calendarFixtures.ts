@@ -0,0 +1,85 @@
+import type { GTFSCalendar, GTFSCalendarDate, GTFSData } from '../types/gtfs';
+
+// Feeds exercising the edge cases of the calendar rules, for tests only
+
+const weekdays = { monday: true, tuesday: true, wednesday: true, thursday: true, friday: true };
+const noDays = {
+  monday: false,
+  tuesday: false,
+  wednesday: false,
+  thursday: false,
+  friday: false,
+  saturday: false,
+  sunday: false,
+};
+
+function calendar(
+  service_id: string,
+  days: Partial<typeof noDays>,
+  start_date: string,
+  end_date: string
+): GTFSCalendar {
+  return { service_id, ...noDays, ...days, start_date, end_date };
+}
+
+function exception(service_id: string, date: string, exception_type: number): GTFSCalendarDate {
+  // Invalid exception types are kept as parsed, like the parser does
+  return { service_id, date, exception_type: exception_type as 1 | 2 };
+}
+
+export function createFeed(
+  calendars: GTFSCalendar[],
+  calendarDates: GTFSCalendarDate[]
+): GTFSData {
+  const serviceIds = new Set([...calendars, ...calendarDates].map((row) => row.service_id));
+  return {
+    source: { fileName: 'fixture.zip', fileSize: 0, files: [], contentHash: 'fixture' },
+    agencies: [],
+    calendars,
+    calendarDates,
+    trips: [...serviceIds].flatMap((serviceId) => [
+      { route_id: 'R1', service_id: serviceId, trip_id: `${serviceId}-1` },
+      { route_id: 'R1', service_id: serviceId, trip_id: `${serviceId}-2` },
+    ]),
+    routes: [{ route_id: 'R1', route_type: 3 }],
+    tripStopTimes: [],
+    parseWarnings: [],
+  };
+}
+
+// Reversed ranges, malformed dates, invalid exception types, duplicate exceptions,
+// exception-only services and services split over several calendar.txt rows
+export const edgeCaseFeed = createFeed(
+  [
+    calendar('WK', weekdays, '20240101', '20240331'),
+    calendar('REV', { saturday: true, sunday: true }, '20240315', '20240301'),
+    calendar('BAD', { ...weekdays, saturday: true, sunday: true }, '20240230', '20240310'),
+    calendar('GARBAGE', { monday: true }, 'abc', '2024-03-01'),
+    calendar('SPLIT', { tuesday: true }, '20240101', '20240131'),
+    calendar('SPLIT', { thursday: true }, '20240301', '20240331'),
+    calendar('EMPTY', {}, '20240101', '20240131'),
+  ],
+  [
+    exception('WK', '20240110', 3),
+    exception('WK', '20240111', Number.NaN),
+    exception('WK', '20240112', 2),
+    exception('WK', '20240112', 1),
+    exception('WK', '20240113', 1),
+    exception('WK', '20240410', 1),
+    exception('WK', '2024-01-15', 2),
+    exception('REV', '20240302', 2),
+    exception('REV', '20240304', 1),
+    exception('BAD', '20240305', 1),
+    exception('GARBAGE', '20240304', 1),
+    exception('SPLIT', '20240104', 1),
+    exception('SPLIT', '20240305', 2),
+    exception('EMPTY', '20240120', 1),
+    exception('HOL', '20240101', 1),
+    exception('HOL', '20240215', 2),
+    exception('HOL', '20240215', 1),
+    exception('HOL', '20240301', 4),
+    exception('HOL', '20240302', 1),
+    exception('HOL', '20240302', 1),
+    exception('HOL', '20240230', 1),
+  ]
+);
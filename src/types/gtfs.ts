@@ -1,5 +1,11 @@
+// Where a parsed record came from, so validation can point at the exact row
+export interface SourceInfo {
+  sourceLine?: number; // 1-based line of the record in its file
+  invalidFields?: Record<string, string>; // Original text of fields that could not be parsed
+}
+
 // GTFS Calendar (calendar.txt)
-export interface GTFSCalendar {
+export interface GTFSCalendar extends SourceInfo {
   service_id: string;
   monday: boolean;
   tuesday: boolean;
@@ -13,14 +19,14 @@ export interface GTFSCalendar {
 }
 
 // GTFS Calendar Dates (calendar_dates.txt) - Exceptions
-export interface GTFSCalendarDate {
+export interface GTFSCalendarDate extends SourceInfo {
   service_id: string;
   date: string; // YYYYMMDD format
   exception_type: 1 | 2; // 1 = service added, 2 = service removed
 }
 
 // GTFS Trip (trips.txt)
-export interface GTFSTrip {
+export interface GTFSTrip extends SourceInfo {
   route_id: string;
   service_id: string;
   trip_id: string;
@@ -33,8 +39,20 @@ export interface GTFSTrip {
   bikes_allowed?: 0 | 1 | 2;
 }
 
+// GTFS Agency (agency.txt)
+export interface GTFSAgency {
+  agency_id?: string;
+  agency_name: string;
+  agency_url: string;
+  agency_timezone: string;
+  agency_lang?: string;
+  agency_phone?: string;
+  agency_fare_url?: string;
+  agency_email?: string;
+}
+
 // GTFS Route (routes.txt)
-export interface GTFSRoute {
+export interface GTFSRoute extends SourceInfo {
   route_id: string;
   agency_id?: string;
   route_short_name?: string;
@@ -47,12 +65,50 @@ export interface GTFSRoute {
   route_sort_order?: number;
 }
 
+// Per-trip summary of stop_times.txt
+export interface TripStopTimesSummary {
+  trip_id: string;
+  first_stop_id: string;
+  last_stop_id: string;
+  departure_time?: number; // Seconds after service day start at the first stop, may exceed 24h
+  arrival_time?: number; // Seconds after service day start at the last stop
+  duration?: number; // Seconds between departure_time and arrival_time
+  stop_count: number;
+}
+
+// Problem found while tokenizing a CSV file
+export interface CSVParseWarning {
+  file: string;
+  line: number; // 1-based line on which the record starts
+  problem:
+    | 'missing_columns'
+    | 'extra_columns'
+    | 'unterminated_quote'
+    | 'unexpected_quote'
+    | 'empty_line'
+    | 'duplicate_header'
+    | 'too_many_warnings';
+  message: string;
+}
+
+// File a feed was loaded from
+export interface GTFSFeedSource {
+  fileName: string;
+  fileSize: number; // Bytes
+  files: string[]; // Entries found in the archive
+  contentHash: string; // SHA-256 of the archive (hex), identifies the feed in deep links
+}
+
 // Parsed GTFS Data
 export interface GTFSData {
+  source: GTFSFeedSource;
+  agencies: GTFSAgency[];
   calendars: GTFSCalendar[];
   calendarDates: GTFSCalendarDate[];
   trips: GTFSTrip[];
   routes: GTFSRoute[];
+  tripStopTimes: TripStopTimesSummary[];
+  parseWarnings: CSVParseWarning[];
 }
 
 // Calendar status for a specific day
@@ -64,17 +120,165 @@ export interface CalendarDayStatus {
   calendar?: GTFSCalendar;
 }
 
+// Sort columns of the trips list
+export type TripSortKey =
+  | 'route'
+  | 'trip_id'
+  | 'headsign'
+  | 'service'
+  | 'days'
+  | 'departure'
+  | 'arrival'
+  | 'duration'
+  | 'stops';
+
+// Search, sort and expanded routes of the trips list, kept in deep links
+export interface TripsListState {
+  searchTerm: string;
+  sortKey: TripSortKey;
+  sortOrder: 'asc' | 'desc';
+  expandedRoutes: string[]; // Route grouping keys
+}
+
 // Trip with route info for display
 export interface TripWithRoute extends GTFSTrip {
   route?: GTFSRoute;
+  agency?: GTFSAgency;
+  stopTimes?: TripStopTimesSummary;
+  serviceDate?: string; // YYYYMMDD, set when the trip belongs to another service day than the one shown
 }
 
+// How trips are assigned to a date:
+// 'service' - trips of that service day, whatever time they run
+// 'operating' - trips actually running during that calendar date, including
+//   trips of the previous service day still running after midnight
+export type DayViewMode = 'service' | 'operating';
+
 // Day info with all active services and trips
 export interface DayInfo {
-  date: Date;
   dateString: string; // YYYYMMDD format
   baseCalendars: CalendarDayStatus[]; // Calendars matching by regular rules (before exceptions)
   activeCalendars: CalendarDayStatus[];
   excludedCalendars: CalendarDayStatus[];
   activeTrips: TripWithRoute[];
+  mode: DayViewMode;
+  spilloverTrips: TripWithRoute[]; // 'operating' mode: trips of the previous service day, also in activeTrips
+}
+
+// How a set of dates combines the services of each date:
+// 'union' - services running on at least one of the dates
+// 'intersection' - services running on every one of the dates
+export type DateSetMode = 'union' | 'intersection';
+
+// Services and trips of a set of dates, by service day
+export interface MultiDayInfo {
+  dates: string[]; // YYYYMMDD, sorted
+  mode: DateSetMode;
+  activeCalendars: CalendarDayStatus[]; // Exception-only services are marked as added
+  activeTrips: TripWithRoute[];
+  operatingDays: Map<string, number>; // service_id -> number of the dates it runs on
+}
+
+// Trips of one route carried by a service
+export interface ServiceRouteUsage {
+  route_id: string;
+  route?: GTFSRoute;
+  tripCount: number;
 }
+
+// Everything about one service_id over the whole feed
+export interface ServiceDetail {
+  serviceId: string;
+  calendars: GTFSCalendar[]; // calendar.txt rows of the service
+  exceptions: GTFSCalendarDate[]; // calendar_dates.txt rows of the service, by date
+  activeDates: string[]; // YYYYMMDD dates the service runs once exceptions are applied, sorted
+  tripCount: number;
+  routes: ServiceRouteUsage[]; // Most trips first
+}
+
+// Trips of one route on one date
+export interface RouteDayUsage {
+  dateString: string; // YYYYMMDD format
+  tripCount: number;
+  outboundCount: number; // direction_id 0
+  inboundCount: number; // direction_id 1
+  noDirectionCount: number; // direction_id not set
+  serviceIds: string[]; // Services contributing trips of the route that day
+}
+
+// Trips of one route on each of two compared dates
+export interface RouteTripDiff {
+  route_id: string;
+  route?: GTFSRoute;
+  countA: number;
+  countB: number;
+}
+
+// Differences between the DayInfo of two dates
+export interface DayComparison {
+  a: DayInfo;
+  b: DayInfo;
+  onlyA: string[]; // service_ids active on the first date only
+  onlyB: string[];
+  both: string[];
+  routes: RouteTripDiff[]; // Every route running on either date, largest difference first
+}
+
+// One service_id on the whole-feed timeline
+export interface ServiceTimelineRow {
+  serviceId: string;
+  calendars: GTFSCalendar[];
+  exceptions: GTFSCalendarDate[]; // Sorted by date
+  start: string | null; // YYYYMMDD, earliest valid calendar start or exception date
+  end: string | null; // YYYYMMDD, latest valid calendar end or exception date
+  activeDayCount: number;
+  tripCount: number;
+}
+
+// Dates of the feed sharing exactly the same active services
+export interface DayType {
+  key: string; // Sorted active service_ids
+  label: string; // Generated from the usual days of week, e.g. "Weekday A", "Sunday", "Special B"
+  serviceIds: string[];
+  dates: string[]; // YYYYMMDD, sorted
+  tripCount: number; // Trips on each member date
+  weekdays: number[]; // Usual days of week of the members (0=Sunday)
+  isIrregular: boolean; // Too few dates on any day of week to be a regular pattern
+  unusualDates: string[]; // Members outside the usual days of week, or every member when irregular
+}
+
+// Active service and trip counts for one date
+export interface DateCoverage {
+  dateString: string; // YYYYMMDD format
+  serviceCount: number;
+  tripCount: number;
+}
+
+// Lookups precomputed once per loaded feed so per-date queries avoid scanning
+// every calendar, exception and trip
+export interface ServiceIndex {
+  data: GTFSData;
+  serviceIds: Set<string>; // Every service_id in calendar.txt or calendar_dates.txt
+  timeZone?: string; // Valid agency_timezone, used to compute "today"
+  dateRange: { start: string; end: string } | null; // YYYYMMDD
+  calendarIndicesByService: Map<string, number[]>; // service_id -> indices into data.calendars
+  baseCalendarsByDate: Map<string, number[]>; // YYYYMMDD -> indices into data.calendars
+  exceptionsByDate: Map<string, GTFSCalendarDate[]>; // YYYYMMDD -> exceptions in file order
+  activeServicesByDate: Map<string, Set<string>>; // YYYYMMDD -> active service_ids
+  activeDatesByService: Map<string, Set<string>>; // service_id -> active YYYYMMDD dates
+  tripsWithRoute: TripWithRoute[]; // data.trips joined with their route, same order
+  tripIndicesByService: Map<string, number[]>; // service_id -> indices into tripsWithRoute
+  queries?: ServiceQueries; // Answers the per-date lookups instead of the maps above when set
+}
+
+// Per-date lookups of a ServiceIndex answered by another store, the SQLite database
+export interface ServiceQueries {
+  getActiveServiceIds: (dateString: string) => string[];
+  getTripIndices: (dateString: string) => number[]; // Ascending indices into tripsWithRoute
+  getTripCount: (dateString: string) => number;
+}
+
+// Where the per-date lookups of the explorer are answered:
+// 'index' - the in-memory maps of the ServiceIndex
+// 'sqlite' - SQL queries on the feed loaded into sql.js
+export type QueryBackend = 'index' | 'sqlite';
@@ -0,0 +1,60 @@
+import type { GTFSAgency, GTFSData, GTFSRoute } from '../types/gtfs';
+
+// Distinguishable colors assigned to agencies in agency.txt order
+const agencyPalette = [
+  '#2563eb',
+  '#16a34a',
+  '#ea580c',
+  '#9333ea',
+  '#0891b2',
+  '#db2777',
+  '#ca8a04',
+  '#4b5563',
+];
+
+// Key identifying an agency, agency_id is optional in single-agency feeds
+export function getAgencyKey(agency: GTFSAgency): string {
+  return agency.agency_id ?? '';
+}
+
+// Agency operating a route, defaulting to the only agency when agency_id is omitted
+export function getRouteAgency(
+  agencies: GTFSAgency[],
+  route: GTFSRoute
+): GTFSAgency | undefined {
+  if (route.agency_id === undefined) {
+    return agencies.length === 1 ? agencies[0] : undefined;
+  }
+  return agencies.find((a) => a.agency_id === route.agency_id);
+}
+
+// Display color for an agency
+export function getAgencyColor(agencies: GTFSAgency[], agency: GTFSAgency): string {
+  const position = agencies.indexOf(agency);
+  return agencyPalette[(position < 0 ? 0 : position) % agencyPalette.length];
+}
+
+// Restrict a feed to one agency: its routes, their trips and stop times, and
+// the calendars and exceptions of the services those trips use
+export function filterGTFSDataByAgency(data: GTFSData, agencyKey: string): GTFSData {
+  const agencies = data.agencies.filter((a) => getAgencyKey(a) === agencyKey);
+  const routes = data.routes.filter((route) => {
+    const agency = getRouteAgency(data.agencies, route);
+    return agency !== undefined && getAgencyKey(agency) === agencyKey;
+  });
+
+  const routeIds = new Set(routes.map((r) => r.route_id));
+  const trips = data.trips.filter((t) => routeIds.has(t.route_id));
+  const tripIds = new Set(trips.map((t) => t.trip_id));
+  const serviceIds = new Set(trips.map((t) => t.service_id));
+
+  return {
+    ...data,
+    agencies,
+    routes,
+    trips,
+    calendars: data.calendars.filter((c) => serviceIds.has(c.service_id)),
+    calendarDates: data.calendarDates.filter((cd) => serviceIds.has(cd.service_id)),
+    tripStopTimes: data.tripStopTimes.filter((st) => tripIds.has(st.trip_id)),
+  };
+}
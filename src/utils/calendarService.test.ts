@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import { format, getDay, isWithinInterval } from 'date-fns';
+import type { CalendarDayStatus, GTFSCalendar, GTFSData } from '../types/gtfs';
+import {
+  buildServiceIndex,
+  eachGTFSDate,
+  formatGTFSDateLabel,
+  getActiveServiceIds,
+  getCalendarStatusForDate,
+  getServiceDayOffset,
+  getTripsOperatingOnDate,
+  parseGTFSDate,
+} from './calendarService';
+import { createFeed, edgeCaseFeed } from '../test/calendarFixtures';
+
+const dayOfWeekKeys: (keyof GTFSCalendar)[] = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+];
+
+// The per-date scan of every calendar and exception that the index replaced, kept as reference
+function scanCalendarStatus(
+  gtfsData: GTFSData,
+  date: Date
+): { active: CalendarDayStatus[]; excluded: CalendarDayStatus[] } {
+  const dateString = format(date, 'yyyyMMdd');
+  const active: CalendarDayStatus[] = [];
+  const excluded: CalendarDayStatus[] = [];
+
+  for (const calendar of gtfsData.calendars) {
+    const isInRange = isWithinInterval(date, {
+      start: parseGTFSDate(calendar.start_date),
+      end: parseGTFSDate(calendar.end_date),
+    });
+    const baseActive = isInRange && (calendar[dayOfWeekKeys[getDay(date)]] as boolean);
+    const exception = gtfsData.calendarDates.find(
+      (cd) => cd.service_id === calendar.service_id && cd.date === dateString
+    );
+
+    if (exception) {
+      if (exception.exception_type === 1) {
+        active.push({
+          service_id: calendar.service_id,
+          isActive: true,
+          isException: true,
+          exceptionType: 'added',
+          calendar,
+        });
+      } else if (exception.exception_type === 2) {
+        if (baseActive) {
+          excluded.push({
+            service_id: calendar.service_id,
+            isActive: false,
+            isException: true,
+            exceptionType: 'removed',
+            calendar,
+          });
+        }
+      }
+    } else if (baseActive) {
+      active.push({ service_id: calendar.service_id, isActive: true, isException: false, calendar });
+    }
+  }
+
+  const calendarServiceIds = new Set(gtfsData.calendars.map((c) => c.service_id));
+  for (const calendarDate of gtfsData.calendarDates) {
+    if (calendarDate.date !== dateString) continue;
+    if (calendarServiceIds.has(calendarDate.service_id)) continue;
+    if (calendarDate.exception_type === 1) {
+      active.push({
+        service_id: calendarDate.service_id,
+        isActive: true,
+        isException: true,
+        exceptionType: 'added',
+      });
+    }
+  }
+
+  return { active, excluded };
+}
+
+// Every date of the fixtures, with a margin on both sides
+const dates = eachGTFSDate('20231201', '20240501');
+
+describe('buildServiceIndex', () => {
+  it.each([
+    ['edge cases', edgeCaseFeed],
+    ['exceptions only', createFeed([], edgeCaseFeed.calendarDates)],
+    ['empty feed', createFeed([], [])],
+  ])('gives the same calendar status as the per-date scan (%s)', (_, feed) => {
+    const index = buildServiceIndex(feed);
+    for (const dateString of dates) {
+      const expected = scanCalendarStatus(feed, parseGTFSDate(dateString));
+      expect(getCalendarStatusForDate(index, dateString), dateString).toEqual(expected);
+      expect(getActiveServiceIds(index, dateString), dateString).toEqual(
+        new Set(expected.active.map((c) => c.service_id))
+      );
+    }
+  });
+
+  it('applies the edge case rules', () => {
+    const index = buildServiceIndex(edgeCaseFeed);
+    const active = (dateString: string) => [...getActiveServiceIds(index, dateString)].sort();
+
+    // Invalid exception types cancel the regular service without adding it
+    expect(active('20240110')).toEqual([]);
+    expect(active('20240111')).toEqual([]);
+    // The first exception of a service on a date wins
+    expect(active('20240112')).toEqual([]);
+    // Reversed ranges run between the two dates
+    expect(active('20240309')).toEqual(['REV']);
+    // Malformed dates never match, exceptions still add the service
+    expect(active('20240305')).toEqual(['BAD', 'WK']);
+    // Exception-only services run when any exception of the date adds them
+    expect(active('20240215')).toEqual(['HOL', 'WK']);
+  });
+});
+
+describe('formatGTFSDateLabel', () => {
+  it('keeps malformed dates as written instead of throwing', () => {
+    expect(formatGTFSDateLabel('20240301', 'MMM d, yyyy')).toBe('Mar 1, 2024');
+    expect(formatGTFSDateLabel('20240230', 'MMM d, yyyy')).toBe('20240230');
+    expect(formatGTFSDateLabel('2024-03-01', 'MMM d, yyyy')).toBe('2024-03-01');
+  });
+});
+
+describe('getServiceDayOffset', () => {
+  it('times trips of the previous service day on the calendar date', () => {
+    const feed = createFeed([], [{ service_id: 'SAT', date: '20240302', exception_type: 1 }]);
+    feed.tripStopTimes = [
+      {
+        trip_id: 'SAT-1',
+        first_stop_id: 'A',
+        last_stop_id: 'B',
+        departure_time: 25 * 3600 + 10 * 60,
+        arrival_time: 25 * 3600 + 40 * 60,
+        stop_count: 2,
+      },
+    ];
+    const index = buildServiceIndex(feed);
+    const [trip] = getTripsOperatingOnDate(index, '20240303').spillover;
+
+    expect(trip.serviceDate).toBe('20240302');
+    expect(trip.stopTimes!.departure_time! - getServiceDayOffset(trip, '20240303')).toBe(70 * 60);
+    expect(getServiceDayOffset({ ...trip, serviceDate: undefined }, '20240303')).toBe(0);
+  });
+});
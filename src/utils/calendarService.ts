@@ -1,11 +1,25 @@
-import { format, parse, eachDayOfInterval, getDay, isWithinInterval } from 'date-fns';
+import { format, parse } from 'date-fns';
 import type {
   GTFSData,
   GTFSCalendar,
+  GTFSCalendarDate,
   CalendarDayStatus,
   TripWithRoute,
+  DateCoverage,
+  DayComparison,
   DayInfo,
+  DayType,
+  DayViewMode,
+  DateSetMode,
+  MultiDayInfo,
+  RouteDayUsage,
+  RouteTripDiff,
+  ServiceDetail,
+  ServiceIndex,
+  ServiceRouteUsage,
+  ServiceTimelineRow,
 } from '../types/gtfs';
+import { getRouteAgency } from './agencyService';
 
 // Day of week mapping (getDay returns 0=Sunday, 1=Monday, etc.)
 const dayOfWeekKeys: (keyof GTFSCalendar)[] = [
@@ -18,52 +32,309 @@ const dayOfWeekKeys: (keyof GTFSCalendar)[] = [
   'saturday',
 ];
 
-// Convert YYYYMMDD string to Date
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+// Calendar logic works on timezone-free YYYYMMDD strings. Date objects only
+// appear at the UI edge, as local-midnight carriers for date-fns formatting.
+
+// Convert YYYYMMDD string to a local-midnight Date, for display only
 export function parseGTFSDate(dateString: string): Date {
   return parse(dateString, 'yyyyMMdd', new Date());
 }
 
-// Convert Date to YYYYMMDD string
+// Display a YYYYMMDD date with a date-fns pattern, keeping malformed values as written in the feed
+export function formatGTFSDateLabel(dateString: string, pattern: string): string {
+  return isValidGTFSDate(dateString) ? format(parseGTFSDate(dateString), pattern) : dateString;
+}
+
+// Convert a local Date (e.g. a day picked in the UI) to YYYYMMDD string
 export function formatGTFSDate(date: Date): string {
   return format(date, 'yyyyMMdd');
 }
 
-// Check if a calendar is active on a given day of week
-function isCalendarActiveOnDayOfWeek(calendar: GTFSCalendar, date: Date): boolean {
-  const dayOfWeek = getDay(date);
-  const dayKey = dayOfWeekKeys[dayOfWeek];
-  return calendar[dayKey] as boolean;
+// Convert YYYYMMDD string to a day number (days since 1970-01-01), or null if malformed
+function toDayNumber(dateString: string): number | null {
+  if (!/^\d{8}$/.test(dateString)) return null;
+
+  const year = Number(dateString.slice(0, 4));
+  const month = Number(dateString.slice(4, 6));
+  const day = Number(dateString.slice(6, 8));
+  const check = new Date(Date.UTC(year, month - 1, day));
+
+  if (
+    check.getUTCFullYear() !== year ||
+    check.getUTCMonth() !== month - 1 ||
+    check.getUTCDate() !== day
+  ) {
+    return null;
+  }
+
+  return check.getTime() / MS_PER_DAY;
 }
 
-// Check if a date is within calendar's date range
-function isDateInCalendarRange(calendar: GTFSCalendar, date: Date): boolean {
-  const startDate = parseGTFSDate(calendar.start_date);
-  const endDate = parseGTFSDate(calendar.end_date);
-  return isWithinInterval(date, { start: startDate, end: endDate });
+// Convert a day number back to YYYYMMDD string
+function fromDayNumber(dayNumber: number): string {
+  const date = new Date(dayNumber * MS_PER_DAY);
+  const year = String(date.getUTCFullYear()).padStart(4, '0');
+  const month = String(date.getUTCMonth() + 1).padStart(2, '0');
+  const day = String(date.getUTCDate()).padStart(2, '0');
+  return `${year}${month}${day}`;
 }
 
-// Get calendar status for a specific date
-export function getCalendarStatusForDate(
-  gtfsData: GTFSData,
-  date: Date
+// Day of week for a day number (0=Sunday), 1970-01-01 was a Thursday
+function dayOfWeekOf(dayNumber: number): number {
+  return (((dayNumber + 4) % 7) + 7) % 7;
+}
+
+// Convert between YYYYMMDD and the yyyy-MM-dd value of a date input
+export function toDateInputValue(dateString: string): string {
+  return `${dateString.slice(0, 4)}-${dateString.slice(4, 6)}-${dateString.slice(6, 8)}`;
+}
+
+export function fromDateInputValue(value: string): string {
+  return value.replace(/-/g, '');
+}
+
+// Check that a string is a real calendar date in YYYYMMDD format
+export function isValidGTFSDate(dateString: string): boolean {
+  return toDayNumber(dateString) !== null;
+}
+
+// Add a number of days to a YYYYMMDD string, unaffected by DST or the browser timezone
+export function addDaysToGTFSDate(dateString: string, days: number): string {
+  const dayNumber = toDayNumber(dateString);
+  if (dayNumber === null) return dateString;
+  return fromDayNumber(dayNumber + days);
+}
+
+// Day of week of a YYYYMMDD string (0=Sunday), or -1 if malformed
+export function getGTFSDayOfWeek(dateString: string): number {
+  const dayNumber = toDayNumber(dateString);
+  return dayNumber === null ? -1 : dayOfWeekOf(dayNumber);
+}
+
+// Number of days from one YYYYMMDD string to another
+export function diffGTFSDates(from: string, to: string): number {
+  return (toDayNumber(to) ?? 0) - (toDayNumber(from) ?? 0);
+}
+
+// First day (YYYYMMDD) of the month containing a date, shifted by a number of months
+export function getGTFSMonthStart(dateString: string, monthOffset = 0): string {
+  const monthIndex = Number(dateString.slice(4, 6)) - 1 + monthOffset;
+  const year = Number(dateString.slice(0, 4)) + Math.floor(monthIndex / 12);
+  const month = (((monthIndex % 12) + 12) % 12) + 1;
+  return `${String(year).padStart(4, '0')}${String(month).padStart(2, '0')}01`;
+}
+
+// First day (YYYYMMDD) of every month from the one containing start to the one containing end
+export function eachGTFSMonth(start: string, end: string): string[] {
+  const months: string[] = [];
+  const last = getGTFSMonthStart(end);
+  for (let month = getGTFSMonthStart(start); month <= last; month = getGTFSMonthStart(month, 1)) {
+    months.push(month);
+  }
+  return months;
+}
+
+// All YYYYMMDD strings from start to end, inclusive
+export function eachGTFSDate(start: string, end: string): string[] {
+  const startDay = toDayNumber(start);
+  const endDay = toDayNumber(end);
+  if (startDay === null || endDay === null) return [];
+
+  const dates: string[] = [];
+  for (let day = startDay; day <= endDay; day++) {
+    dates.push(fromDayNumber(day));
+  }
+  return dates;
+}
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Today's date as YYYYMMDD in the given IANA timezone, or the browser's if none
+export function getTodayGTFSDate(timeZone?: string): string {
+  const now = new Date();
+  if (!timeZone || !isValidTimeZone(timeZone)) return formatGTFSDate(now);
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(now);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((p) => p.type === type)?.value ?? '';
+  return `${part('year')}${part('month')}${part('day')}`;
+}
+
+// Feed timezone from agency.txt; GTFS requires all agencies to share it
+function getFeedTimeZone(gtfsData: GTFSData): string | undefined {
+  const timeZone = gtfsData.agencies.find((a) => a.agency_timezone)?.agency_timezone;
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : undefined;
+}
+
+function appendToMap<K, V>(map: Map<K, V[]>, key: K, value: V): void {
+  const existing = map.get(key);
+  if (existing) {
+    existing.push(value);
+  } else {
+    map.set(key, [value]);
+  }
+}
+
+// Build all per-date and per-service lookups for a feed in a single pass
+export function buildServiceIndex(gtfsData: GTFSData): ServiceIndex {
+  const calendarIndicesByService = new Map<string, number[]>();
+  const baseCalendarsByDate = new Map<string, number[]>();
+  const exceptionsByDate = new Map<string, GTFSCalendarDate[]>();
+  // Feed range as reported to the UI: earliest start_date/exception, latest end_date/exception
+  let minDay: number | null = null;
+  let maxDay: number | null = null;
+  // Every date on which some service could be active
+  let firstDay: number | null = null;
+  let lastDay: number | null = null;
+
+  const extendRange = (fromDay: number | null, toDay: number | null) => {
+    if (fromDay !== null && (minDay === null || fromDay < minDay)) minDay = fromDay;
+    if (toDay !== null && (maxDay === null || toDay > maxDay)) maxDay = toDay;
+    for (const day of [fromDay, toDay]) {
+      if (day === null) continue;
+      if (firstDay === null || day < firstDay) firstDay = day;
+      if (lastDay === null || day > lastDay) lastDay = day;
+    }
+  };
+
+  // Expand calendar.txt into the dates each calendar matches by regular rules
+  gtfsData.calendars.forEach((calendar, calendarIndex) => {
+    appendToMap(calendarIndicesByService, calendar.service_id, calendarIndex);
+
+    const startDay = toDayNumber(calendar.start_date);
+    const endDay = toDayNumber(calendar.end_date);
+    extendRange(startDay, endDay);
+    if (startDay === null || endDay === null) return;
+
+    // A reversed range is treated as start/end swapped, like isWithinInterval does
+    const fromDay = Math.min(startDay, endDay);
+    const toDay = Math.max(startDay, endDay);
+    for (let day = fromDay; day <= toDay; day++) {
+      if (calendar[dayOfWeekKeys[dayOfWeekOf(day)]]) {
+        appendToMap(baseCalendarsByDate, fromDayNumber(day), calendarIndex);
+      }
+    }
+  });
+
+  // Group calendar_dates.txt by date, keeping file order
+  for (const calendarDate of gtfsData.calendarDates) {
+    appendToMap(exceptionsByDate, calendarDate.date, calendarDate);
+    const day = toDayNumber(calendarDate.date);
+    extendRange(day, day);
+  }
+
+  // Join trips with their route, agency and stop times once and group them by service
+  const routeMap = new Map(gtfsData.routes.map((r) => [r.route_id, r]));
+  const routeAgencyMap = new Map(
+    gtfsData.routes.map((r) => [r.route_id, getRouteAgency(gtfsData.agencies, r)])
+  );
+  const stopTimesMap = new Map(gtfsData.tripStopTimes.map((st) => [st.trip_id, st]));
+  const tripsWithRoute: TripWithRoute[] = gtfsData.trips.map((trip) => ({
+    ...trip,
+    route: routeMap.get(trip.route_id),
+    agency: routeAgencyMap.get(trip.route_id),
+    stopTimes: stopTimesMap.get(trip.trip_id),
+  }));
+  const tripIndicesByService = new Map<string, number[]>();
+  tripsWithRoute.forEach((trip, tripIndex) => {
+    appendToMap(tripIndicesByService, trip.service_id, tripIndex);
+  });
+
+  const index: ServiceIndex = {
+    data: gtfsData,
+    serviceIds: new Set([
+      ...gtfsData.calendars.map((c) => c.service_id),
+      ...gtfsData.calendarDates.map((cd) => cd.service_id),
+    ]),
+    timeZone: getFeedTimeZone(gtfsData),
+    dateRange:
+      minDay !== null && maxDay !== null
+        ? { start: fromDayNumber(minDay), end: fromDayNumber(maxDay) }
+        : null,
+    calendarIndicesByService,
+    baseCalendarsByDate,
+    exceptionsByDate,
+    activeServicesByDate: new Map(),
+    activeDatesByService: new Map(),
+    tripsWithRoute,
+    tripIndicesByService,
+  };
+
+  // Resolve the active services of every date in the feed range
+  if (firstDay !== null && lastDay !== null) {
+    for (let day: number = firstDay; day <= lastDay; day++) {
+      const dateString = fromDayNumber(day);
+      const { active } = getCalendarStatusForDateString(index, dateString);
+      if (active.length === 0) continue;
+
+      const serviceIds = new Set(active.map((c) => c.service_id));
+      index.activeServicesByDate.set(dateString, serviceIds);
+      for (const serviceId of serviceIds) {
+        const dates = index.activeDatesByService.get(serviceId);
+        if (dates) {
+          dates.add(dateString);
+        } else {
+          index.activeDatesByService.set(serviceId, new Set([dateString]));
+        }
+      }
+    }
+  }
+
+  return index;
+}
+
+// Resolve calendar status for a YYYYMMDD date. Only calendars that match by
+// regular rules or have an exception on that date are visited, in file order,
+// so the result is the same as checking every calendar in calendar.txt.
+function getCalendarStatusForDateString(
+  index: ServiceIndex,
+  dateString: string
 ): { active: CalendarDayStatus[]; excluded: CalendarDayStatus[] } {
-  const dateString = formatGTFSDate(date);
+  const { data } = index;
   const active: CalendarDayStatus[] = [];
   const excluded: CalendarDayStatus[] = [];
 
-  // Track service IDs that are added via exceptions (not in calendar.txt)
-  const addedServiceIds = new Set<string>();
+  const exceptions = index.exceptionsByDate.get(dateString) ?? [];
+  const baseIndices = index.baseCalendarsByDate.get(dateString) ?? [];
+
+  // The first exception for a service wins, as with calendarDates.find
+  const exceptionByService = new Map<string, GTFSCalendarDate>();
+  for (const exception of exceptions) {
+    if (!exceptionByService.has(exception.service_id)) {
+      exceptionByService.set(exception.service_id, exception);
+    }
+  }
+
+  const baseIndexSet = new Set(baseIndices);
+  const candidateIndices = new Set(baseIndices);
+  for (const serviceId of exceptionByService.keys()) {
+    for (const calendarIndex of index.calendarIndicesByService.get(serviceId) ?? []) {
+      candidateIndices.add(calendarIndex);
+    }
+  }
 
   // First, check calendar.txt for regular services
-  for (const calendar of gtfsData.calendars) {
-    const isInRange = isDateInCalendarRange(calendar, date);
-    const isActiveDay = isCalendarActiveOnDayOfWeek(calendar, date);
-    const baseActive = isInRange && isActiveDay;
+  for (const calendarIndex of [...candidateIndices].sort((a, b) => a - b)) {
+    const calendar = data.calendars[calendarIndex];
+    const baseActive = baseIndexSet.has(calendarIndex);
 
     // Check for exceptions in calendar_dates.txt
-    const exception = gtfsData.calendarDates.find(
-      (cd) => cd.service_id === calendar.service_id && cd.date === dateString
-    );
+    const exception = exceptionByService.get(calendar.service_id);
 
     if (exception) {
       if (exception.exception_type === 1) {
@@ -100,14 +371,10 @@ export function getCalendarStatusForDate(
 
   // Check for service IDs in calendar_dates.txt that don't exist in calendar.txt
   // These are services defined only by exceptions
-  const calendarServiceIds = new Set(gtfsData.calendars.map((c) => c.service_id));
-
-  for (const calendarDate of gtfsData.calendarDates) {
-    if (calendarDate.date !== dateString) continue;
-    if (calendarServiceIds.has(calendarDate.service_id)) continue;
+  for (const calendarDate of exceptions) {
+    if (index.calendarIndicesByService.has(calendarDate.service_id)) continue;
 
     if (calendarDate.exception_type === 1) {
-      addedServiceIds.add(calendarDate.service_id);
       active.push({
         service_id: calendarDate.service_id,
         isActive: true,
@@ -120,123 +387,449 @@ export function getCalendarStatusForDate(
   return { active, excluded };
 }
 
+// Get calendar status for a specific date (YYYYMMDD)
+export function getCalendarStatusForDate(
+  index: ServiceIndex,
+  dateString: string
+): { active: CalendarDayStatus[]; excluded: CalendarDayStatus[] } {
+  return getCalendarStatusForDateString(index, dateString);
+}
+
+const noServices: ReadonlySet<string> = new Set();
+
 // Get all active service IDs for a date
-export function getActiveServiceIds(gtfsData: GTFSData, date: Date): Set<string> {
-  const { active } = getCalendarStatusForDate(gtfsData, date);
-  return new Set(active.map((c) => c.service_id));
+export function getActiveServiceIds(index: ServiceIndex, dateString: string): ReadonlySet<string> {
+  if (index.queries) return new Set(index.queries.getActiveServiceIds(dateString));
+  return index.activeServicesByDate.get(dateString) ?? noServices;
 }
 
-// Get trips for active services on a date
-export function getTripsForDate(gtfsData: GTFSData, date: Date): TripWithRoute[] {
-  const activeServiceIds = getActiveServiceIds(gtfsData, date);
+// Get all dates (YYYYMMDD) on which a service is active
+export function getActiveDatesForService(
+  index: ServiceIndex,
+  serviceId: string
+): ReadonlySet<string> {
+  return index.activeDatesByService.get(serviceId) ?? noServices;
+}
 
-  // Create route lookup map
-  const routeMap = new Map(gtfsData.routes.map((r) => [r.route_id, r]));
+// Calendars, exceptions, active dates, trips and routes of one service
+export function getServiceDetail(index: ServiceIndex, serviceId: string): ServiceDetail {
+  const tripIndices = index.tripIndicesByService.get(serviceId) ?? [];
+  const routeUsage = new Map<string, ServiceRouteUsage>();
+  for (const tripIndex of tripIndices) {
+    const trip = index.tripsWithRoute[tripIndex];
+    const usage = routeUsage.get(trip.route_id);
+    if (usage) {
+      usage.tripCount++;
+    } else {
+      routeUsage.set(trip.route_id, { route_id: trip.route_id, route: trip.route, tripCount: 1 });
+    }
+  }
 
-  return gtfsData.trips
-    .filter((trip) => activeServiceIds.has(trip.service_id))
-    .map((trip) => ({
-      ...trip,
-      route: routeMap.get(trip.route_id),
-    }));
+  return {
+    serviceId,
+    calendars: (index.calendarIndicesByService.get(serviceId) ?? []).map(
+      (calendarIndex) => index.data.calendars[calendarIndex]
+    ),
+    exceptions: index.data.calendarDates
+      .filter((cd) => cd.service_id === serviceId)
+      .sort((a, b) => a.date.localeCompare(b.date)),
+    activeDates: [...getActiveDatesForService(index, serviceId)].sort(),
+    tripCount: tripIndices.length,
+    routes: [...routeUsage.values()].sort((a, b) => b.tripCount - a.tripCount),
+  };
 }
 
-// Get calendars that match by regular rules (date range + day of week), ignoring exceptions
-export function getBaseCalendarsForDate(
-  gtfsData: GTFSData,
-  date: Date
-): CalendarDayStatus[] {
-  const baseCalendars: CalendarDayStatus[] = [];
+// Span, calendars and exceptions of every service_id, for the timeline
+export function getServiceTimeline(index: ServiceIndex): ServiceTimelineRow[] {
+  const exceptionsByService = new Map<string, GTFSCalendarDate[]>();
+  for (const cd of index.data.calendarDates) {
+    const exceptions = exceptionsByService.get(cd.service_id);
+    if (exceptions) {
+      exceptions.push(cd);
+    } else {
+      exceptionsByService.set(cd.service_id, [cd]);
+    }
+  }
 
-  for (const calendar of gtfsData.calendars) {
-    const isInRange = isDateInCalendarRange(calendar, date);
-    const isActiveDay = isCalendarActiveOnDayOfWeek(calendar, date);
+  return [...index.serviceIds].map((serviceId) => {
+    const calendars = (index.calendarIndicesByService.get(serviceId) ?? []).map(
+      (calendarIndex) => index.data.calendars[calendarIndex]
+    );
+    const exceptions = (exceptionsByService.get(serviceId) ?? []).sort((a, b) =>
+      a.date.localeCompare(b.date)
+    );
+    const bounds = [
+      ...calendars.flatMap((calendar) => [calendar.start_date, calendar.end_date]),
+      ...exceptions.map((cd) => cd.date),
+    ]
+      .filter(isValidGTFSDate)
+      .sort();
+
+    return {
+      serviceId,
+      calendars,
+      exceptions,
+      start: bounds[0] ?? null,
+      end: bounds[bounds.length - 1] ?? null,
+      activeDayCount: index.activeDatesByService.get(serviceId)?.size ?? 0,
+      tripCount: index.tripIndicesByService.get(serviceId)?.length ?? 0,
+    };
+  });
+}
 
-    if (isInRange && isActiveDay) {
-      baseCalendars.push({
-        service_id: calendar.service_id,
-        isActive: true,
-        isException: false,
-        calendar,
-      });
+// Get trips for active services on a date, in trips.txt order
+export function getTripsForDate(index: ServiceIndex, dateString: string): TripWithRoute[] {
+  if (index.queries) {
+    return index.queries.getTripIndices(dateString).map((i) => index.tripsWithRoute[i]);
+  }
+
+  const tripIndices: number[] = [];
+
+  for (const serviceId of getActiveServiceIds(index, dateString)) {
+    for (const tripIndex of index.tripIndicesByService.get(serviceId) ?? []) {
+      tripIndices.push(tripIndex);
     }
   }
 
-  return baseCalendars;
+  return tripIndices.sort((a, b) => a - b).map((i) => index.tripsWithRoute[i]);
+}
+
+// Count trips of the services active on a date without materializing them
+export function getTripCount(index: ServiceIndex, dateString: string): number {
+  if (index.queries) return index.queries.getTripCount(dateString);
+
+  let count = 0;
+  for (const serviceId of getActiveServiceIds(index, dateString)) {
+    count += index.tripIndicesByService.get(serviceId)?.length ?? 0;
+  }
+  return count;
+}
+
+// Active service and trip counts for every date of the feed range
+export function getDateCoverage(index: ServiceIndex): DateCoverage[] {
+  const range = getDateRange(index);
+  if (!range) return [];
+
+  return eachGTFSDate(range.start, range.end).map((dateString) => ({
+    dateString,
+    serviceCount: getActiveServiceIds(index, dateString).size,
+    tripCount: getTripCount(index, dateString),
+  }));
+}
+
+// Trip counts of one route for every date of the feed range, getTripsForDate inverted per route
+export function getRouteCalendar(index: ServiceIndex, routeId: string): RouteDayUsage[] {
+  const range = getDateRange(index);
+  if (!range) return [];
+
+  // Trips of the route per service and direction
+  const countsByService = new Map<string, { outbound: number; inbound: number; none: number }>();
+  for (const trip of index.tripsWithRoute) {
+    if (trip.route_id !== routeId) continue;
+    let counts = countsByService.get(trip.service_id);
+    if (!counts) {
+      counts = { outbound: 0, inbound: 0, none: 0 };
+      countsByService.set(trip.service_id, counts);
+    }
+    if (trip.direction_id === 0) counts.outbound++;
+    else if (trip.direction_id === 1) counts.inbound++;
+    else counts.none++;
+  }
+
+  return eachGTFSDate(range.start, range.end).map((dateString) => {
+    const activeServices = getActiveServiceIds(index, dateString);
+    const usage: RouteDayUsage = {
+      dateString,
+      tripCount: 0,
+      outboundCount: 0,
+      inboundCount: 0,
+      noDirectionCount: 0,
+      serviceIds: [],
+    };
+    for (const [serviceId, counts] of countsByService) {
+      if (!activeServices.has(serviceId)) continue;
+      usage.serviceIds.push(serviceId);
+      usage.outboundCount += counts.outbound;
+      usage.inboundCount += counts.inbound;
+      usage.noDirectionCount += counts.none;
+    }
+    usage.tripCount = usage.outboundCount + usage.inboundCount + usage.noDirectionCount;
+    return usage;
+  });
+}
+
+// Get calendars that match by regular rules (date range + day of week), ignoring exceptions
+export function getBaseCalendarsForDate(
+  index: ServiceIndex,
+  dateString: string
+): CalendarDayStatus[] {
+  const baseIndices = index.baseCalendarsByDate.get(dateString) ?? [];
+
+  return baseIndices.map((calendarIndex) => {
+    const calendar = index.data.calendars[calendarIndex];
+    return {
+      service_id: calendar.service_id,
+      isActive: true,
+      isException: false,
+      calendar,
+    };
+  });
+}
+
+// Get trips running during a calendar date: trips of that service day starting
+// before midnight, plus trips of the previous service day still running after
+// midnight (times past 24:00:00), labelled with their service date. Trips
+// without stop times are assumed to run on their own service day.
+export function getTripsOperatingOnDate(
+  index: ServiceIndex,
+  dateString: string
+): { trips: TripWithRoute[]; spillover: TripWithRoute[] } {
+  const previousDateString = addDaysToGTFSDate(dateString, -1);
+
+  const spillover = getTripsForDate(index, previousDateString)
+    .filter((trip) => (trip.stopTimes?.arrival_time ?? 0) > SECONDS_PER_DAY)
+    .map((trip) => ({ ...trip, serviceDate: previousDateString }));
+
+  const sameDay = getTripsForDate(index, dateString).filter(
+    (trip) => (trip.stopTimes?.departure_time ?? 0) < SECONDS_PER_DAY
+  );
+
+  return { trips: [...spillover, ...sameDay], spillover };
+}
+
+// Seconds to subtract from a trip's stop times to read them on a calendar date, e.g.
+// 25:10:00 of the previous service day is 01:10:00 of that date
+export function getServiceDayOffset(trip: TripWithRoute, dateString: string): number {
+  if (!trip.serviceDate) return 0;
+  return diffGTFSDates(trip.serviceDate, dateString) * SECONDS_PER_DAY;
 }
 
 // Get complete day info
-export function getDayInfo(gtfsData: GTFSData, date: Date): DayInfo {
-  const { active, excluded } = getCalendarStatusForDate(gtfsData, date);
-  const baseCalendars = getBaseCalendarsForDate(gtfsData, date);
-  const activeTrips = getTripsForDate(gtfsData, date);
+export function getDayInfo(
+  index: ServiceIndex,
+  dateString: string,
+  mode: DayViewMode = 'service'
+): DayInfo {
+  const { active, excluded } = getCalendarStatusForDate(index, dateString);
+  const baseCalendars = getBaseCalendarsForDate(index, dateString);
+  const { trips: activeTrips, spillover: spilloverTrips } =
+    mode === 'operating'
+      ? getTripsOperatingOnDate(index, dateString)
+      : { trips: getTripsForDate(index, dateString), spillover: [] };
 
   return {
-    date,
-    dateString: formatGTFSDate(date),
+    dateString,
     baseCalendars,
     activeCalendars: active,
     excludedCalendars: excluded,
     activeTrips,
+    mode,
+    spilloverTrips,
   };
 }
 
-// Get date range from GTFS data
-export function getDateRange(gtfsData: GTFSData): { start: Date; end: Date } | null {
-  if (gtfsData.calendars.length === 0 && gtfsData.calendarDates.length === 0) {
-    return null;
+// Services and trips running on any or every date of a set, by service day
+export function getMultiDayInfo(
+  index: ServiceIndex,
+  dates: string[],
+  mode: DateSetMode = 'union'
+): MultiDayInfo {
+  const sortedDates = [...new Set(dates)].sort();
+  const operatingDays = new Map<string, number>();
+  for (const dateString of sortedDates) {
+    for (const serviceId of getActiveServiceIds(index, dateString)) {
+      operatingDays.set(serviceId, (operatingDays.get(serviceId) ?? 0) + 1);
+    }
   }
 
-  let minDate: Date | null = null;
-  let maxDate: Date | null = null;
+  const serviceIds = [...operatingDays]
+    .filter(([, count]) => mode === 'union' || count === sortedDates.length)
+    .map(([serviceId]) => serviceId)
+    .sort();
 
-  // Check calendar.txt
-  for (const calendar of gtfsData.calendars) {
-    const startDate = parseGTFSDate(calendar.start_date);
-    const endDate = parseGTFSDate(calendar.end_date);
+  const activeCalendars = serviceIds.map((serviceId): CalendarDayStatus => {
+    const calendarIndex = index.calendarIndicesByService.get(serviceId)?.[0];
+    const calendar = calendarIndex !== undefined ? index.data.calendars[calendarIndex] : undefined;
+    return calendar
+      ? { service_id: serviceId, isActive: true, isException: false, calendar }
+      : { service_id: serviceId, isActive: true, isException: true, exceptionType: 'added' };
+  });
 
-    if (!minDate || startDate < minDate) minDate = startDate;
-    if (!maxDate || endDate > maxDate) maxDate = endDate;
-  }
+  const tripIndices = serviceIds.flatMap(
+    (serviceId) => index.tripIndicesByService.get(serviceId) ?? []
+  );
 
-  // Check calendar_dates.txt
-  for (const calendarDate of gtfsData.calendarDates) {
-    const date = parseGTFSDate(calendarDate.date);
-    if (!minDate || date < minDate) minDate = date;
-    if (!maxDate || date > maxDate) maxDate = date;
-  }
+  return {
+    dates: sortedDates,
+    mode,
+    activeCalendars,
+    activeTrips: tripIndices.sort((a, b) => a - b).map((i) => index.tripsWithRoute[i]),
+    operatingDays,
+  };
+}
 
-  if (!minDate || !maxDate) return null;
+// Compare the active services and per-route trip counts of two days
+export function compareDays(a: DayInfo, b: DayInfo): DayComparison {
+  const servicesA = new Set(a.activeCalendars.map((c) => c.service_id));
+  const servicesB = new Set(b.activeCalendars.map((c) => c.service_id));
+
+  const routes = new Map<string, RouteTripDiff>();
+  const countTrips = (trips: TripWithRoute[], key: 'countA' | 'countB') => {
+    for (const trip of trips) {
+      let diff = routes.get(trip.route_id);
+      if (!diff) {
+        diff = { route_id: trip.route_id, route: trip.route, countA: 0, countB: 0 };
+        routes.set(trip.route_id, diff);
+      }
+      diff[key]++;
+    }
+  };
+  countTrips(a.activeTrips, 'countA');
+  countTrips(b.activeTrips, 'countB');
 
-  return { start: minDate, end: maxDate };
+  return {
+    a,
+    b,
+    onlyA: [...servicesA].filter((id) => !servicesB.has(id)).sort(),
+    onlyB: [...servicesB].filter((id) => !servicesA.has(id)).sort(),
+    both: [...servicesA].filter((id) => servicesB.has(id)).sort(),
+    routes: [...routes.values()].sort(
+      (x, y) =>
+        Math.abs(y.countB - y.countA) - Math.abs(x.countB - x.countA) ||
+        x.route_id.localeCompare(y.route_id, undefined, { numeric: true })
+    ),
+  };
+}
+
+// A day type is regular when at least this many of its dates fall on the same day of week
+const REGULAR_MIN_DATES_PER_WEEKDAY = 4;
+
+// Days of week holding less than this share of a day type's busiest day of week are unusual
+const USUAL_WEEKDAY_SHARE = 0.25;
+
+const weekdayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Name of a set of usual days of week (0=Sunday)
+function describeWeekdays(weekdays: number[]): string {
+  const key = [...weekdays].sort().join('');
+  const names: Record<string, string> = {
+    '12345': 'Weekday',
+    '06': 'Weekend',
+    '0123456': 'Daily',
+    '123456': 'Monday-Saturday',
+  };
+  if (names[key]) return names[key];
+  if (weekdays.length === 1) return weekdayNames[weekdays[0]];
+  // Monday-first list of short names
+  return [...weekdays]
+    .sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7))
+    .map((day) => weekdayNames[day].slice(0, 3))
+    .join('/');
 }
 
-// Get all dates in GTFS data range starting from today
-export function getAvailableDates(gtfsData: GTFSData): Date[] {
-  const range = getDateRange(gtfsData);
+// Group the dates of the feed range by their exact set of active services
+export function getDayTypes(index: ServiceIndex): DayType[] {
+  const range = getDateRange(index);
   if (!range) return [];
 
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+  const groups = new Map<string, { serviceIds: string[]; dates: string[] }>();
+  for (const dateString of eachGTFSDate(range.start, range.end)) {
+    const serviceIds = [...getActiveServiceIds(index, dateString)].sort();
+    const key = serviceIds.join('\n');
+    const group = groups.get(key);
+    if (group) {
+      group.dates.push(dateString);
+    } else {
+      groups.set(key, { serviceIds, dates: [dateString] });
+    }
+  }
 
-  // Start from today or range start, whichever is later
-  const startDate = today > range.start ? today : range.start;
+  const dayTypes = [...groups].map(([key, { serviceIds, dates }]): DayType => {
+    const weekdayCounts = [0, 0, 0, 0, 0, 0, 0];
+    for (const dateString of dates) weekdayCounts[getGTFSDayOfWeek(dateString)]++;
+    const busiest = Math.max(...weekdayCounts);
+    const isIrregular = serviceIds.length > 0 && busiest < REGULAR_MIN_DATES_PER_WEEKDAY;
+    const weekdays = weekdayCounts
+      .map((count, day) => ({ count, day }))
+      .filter(({ count }) => count > 0 && count >= busiest * USUAL_WEEKDAY_SHARE)
+      .map(({ day }) => day);
+
+    return {
+      key,
+      label: '',
+      serviceIds,
+      dates,
+      tripCount: getTripCount(index, dates[0]),
+      weekdays,
+      isIrregular,
+      unusualDates: isIrregular
+        ? dates
+        : dates.filter((dateString) => !weekdays.includes(getGTFSDayOfWeek(dateString))),
+    };
+  });
+
+  // Regular types first, largest first, then label them with a letter when a name repeats
+  dayTypes.sort(
+    (a, b) =>
+      Number(a.isIrregular) - Number(b.isIrregular) ||
+      b.dates.length - a.dates.length ||
+      a.dates[0].localeCompare(b.dates[0])
+  );
+  const baseLabels = dayTypes.map((dayType) =>
+    dayType.serviceIds.length === 0
+      ? 'No service'
+      : dayType.isIrregular
+        ? 'Special'
+        : describeWeekdays(dayType.weekdays)
+  );
+  const seen = new Map<string, number>();
+  dayTypes.forEach((dayType, i) => {
+    const base = baseLabels[i];
+    const occurrence = seen.get(base) ?? 0;
+    seen.set(base, occurrence + 1);
+    const isRepeated = baseLabels.filter((label) => label === base).length > 1;
+    dayType.label = isRepeated ? `${base} ${String.fromCharCode(65 + (occurrence % 26))}` : base;
+  });
+
+  return dayTypes;
+}
+
+// Get date range (YYYYMMDD) from GTFS data
+export function getDateRange(index: ServiceIndex): { start: string; end: string } | null {
+  return index.dateRange;
+}
+
+// Today in the feed's timezone (agency_timezone), falling back to the browser's
+export function getFeedToday(index: ServiceIndex): string {
+  return getTodayGTFSDate(index.timeZone);
+}
+
+// Get all dates (YYYYMMDD) in GTFS data range starting from a reference date
+// (today in the feed timezone by default), or the whole range with includePast
+export function getAvailableDates(
+  index: ServiceIndex,
+  options: { referenceDate?: string; includePast?: boolean } = {}
+): string[] {
+  const range = getDateRange(index);
+  if (!range) return [];
+  if (options.includePast) return eachGTFSDate(range.start, range.end);
+
+  // Start from the reference date or range start, whichever is later
+  const referenceDate = options.referenceDate ?? getFeedToday(index);
+  const startDate = referenceDate > range.start ? referenceDate : range.start;
 
   if (startDate > range.end) return [];
 
-  return eachDayOfInterval({ start: startDate, end: range.end });
+  return eachGTFSDate(startDate, range.end);
 }
 
 // Get service summary stats
-export function getServiceStats(gtfsData: GTFSData) {
+export function getServiceStats(index: ServiceIndex) {
   return {
-    totalCalendars: gtfsData.calendars.length,
-    totalExceptions: gtfsData.calendarDates.length,
-    totalTrips: gtfsData.trips.length,
-    totalRoutes: gtfsData.routes.length,
-    uniqueServiceIds: new Set([
-      ...gtfsData.calendars.map((c) => c.service_id),
-      ...gtfsData.calendarDates.map((cd) => cd.service_id),
-    ]).size,
+    totalCalendars: index.data.calendars.length,
+    totalExceptions: index.data.calendarDates.length,
+    totalTrips: index.data.trips.length,
+    totalRoutes: index.data.routes.length,
+    uniqueServiceIds: index.serviceIds.size,
   };
 }
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import type { CSVParseWarning } from '../types/gtfs';
+import type { CSVRow } from './csvReader';
+import { createCSVReader } from './csvReader';
+
+// Push the chunks through a reader and collect everything it reports
+function read(...chunks: string[]) {
+  const rows: { row: CSVRow; line: number }[] = [];
+  const warnings: CSVParseWarning[] = [];
+  const reader = createCSVReader(
+    'test.txt',
+    (row, line) => rows.push({ row, line }),
+    (warning) => warnings.push(warning)
+  );
+  for (const chunk of chunks) reader.push(chunk);
+  reader.end();
+  return { rows, warnings, problems: warnings.map((w) => [w.problem, w.line]) };
+}
+
+// Every way of splitting a text into two chunks
+function splits(text: string): string[][] {
+  return Array.from({ length: text.length + 1 }, (_, i) => [text.slice(0, i), text.slice(i)]);
+}
+
+describe('createCSVReader', () => {
+  it('reads rows keyed by the trimmed header', () => {
+    const { rows, warnings } = read('a, b\n1, x \n2,y\n');
+    expect(rows).toEqual([
+      { row: { a: '1', b: 'x' }, line: 2 },
+      { row: { a: '2', b: 'y' }, line: 3 },
+    ]);
+    expect(warnings).toEqual([]);
+  });
+
+  it('skips a leading BOM', () => {
+    const { rows } = read('﻿service_id,date\nWK,20240101\n');
+    expect(rows[0].row).toEqual({ service_id: 'WK', date: '20240101' });
+  });
+
+  it('accepts CRLF and lone CR line breaks', () => {
+    const expected = [
+      { row: { a: '1', b: '2' }, line: 2 },
+      { row: { a: '3', b: '4' }, line: 3 },
+    ];
+    expect(read('a,b\r\n1,2\r\n3,4\r\n').rows).toEqual(expected);
+    expect(read('a,b\r1,2\r3,4\r').rows).toEqual(expected);
+    expect(read('a,b\r\n1,2\r3,4\n').rows).toEqual(expected);
+  });
+
+  it('keeps commas, escaped quotes and line breaks inside quoted fields', () => {
+    const { rows, warnings } = read('a,b\n"x, ""y""","line 1\nline 2"\n"",next\n');
+    expect(rows).toEqual([
+      { row: { a: 'x, "y"', b: 'line 1\nline 2' }, line: 2 },
+      { row: { a: '', b: 'next' }, line: 4 },
+    ]);
+    expect(warnings).toEqual([]);
+  });
+
+  it('pads missing columns and drops extra ones with a warning', () => {
+    const { rows, problems } = read('a,b,c\n1,2\n1,2,3,4\n');
+    expect(rows.map((r) => r.row)).toEqual([
+      { a: '1', b: '2', c: '' },
+      { a: '1', b: '2', c: '3' },
+    ]);
+    expect(problems).toEqual([
+      ['missing_columns', 2],
+      ['extra_columns', 3],
+    ]);
+  });
+
+  it('reports blank lines between rows but not at the end of the file', () => {
+    const { rows, problems } = read('a\n\n1\n \n2\n\n\n');
+    expect(rows).toEqual([
+      { row: { a: '1' }, line: 3 },
+      { row: { a: '2' }, line: 5 },
+    ]);
+    expect(problems).toEqual([
+      ['empty_line', 2],
+      ['empty_line', 4],
+    ]);
+  });
+
+  it('reads a last row without a line break', () => {
+    expect(read('a,b\n1,2').rows).toEqual([{ row: { a: '1', b: '2' }, line: 2 }]);
+  });
+
+  it('reports an unterminated quote and keeps the rest of the file in the field, trimmed', () => {
+    const { rows, problems } = read('a,b\n1,"open\n2,3\n');
+    expect(rows).toEqual([{ row: { a: '1', b: 'open\n2,3' }, line: 2 }]);
+    expect(problems).toEqual([['unterminated_quote', 2]]);
+  });
+
+  it('keeps stray quotes as literal characters with a warning', () => {
+    const { rows, problems } = read('a,b\nab"c,"x"y\n');
+    expect(rows[0].row).toEqual({ a: 'ab"c', b: 'xy' });
+    expect(problems).toEqual([
+      ['unexpected_quote', 2],
+      ['unexpected_quote', 2],
+    ]);
+  });
+
+  it('reports duplicate headers', () => {
+    expect(read('a,a\n1,2\n').problems).toEqual([['duplicate_header', 1]]);
+  });
+
+  it('gives the same result wherever the text is split into chunks', () => {
+    const text = '﻿a,b\r\n"x ""q""","1\r\n2"\r\n3,4\r5,6\n';
+    const expected = read(text);
+    expect(expected.rows).toHaveLength(3);
+    for (const chunks of splits(text)) {
+      expect(read(...chunks), JSON.stringify(chunks)).toEqual(expected);
+    }
+  });
+
+  it('summarises warnings past the per-file limit', () => {
+    const { warnings } = read('a,b\n' + '1\n'.repeat(1005));
+    expect(warnings).toHaveLength(1001);
+    expect(warnings[1000]).toMatchObject({
+      problem: 'too_many_warnings',
+      message: '5 more warning(s) not shown',
+    });
+  });
+});
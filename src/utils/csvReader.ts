@@ -0,0 +1,194 @@
+import type { CSVParseWarning } from '../types/gtfs';
+
+export type CSVRow = Record<string, string>;
+
+// Warnings reported per file before the rest are summarised in a single warning
+const MAX_WARNINGS_PER_FILE = 1000;
+
+type TokenizerState =
+  | 'fieldStart' // Nothing read yet for the current field
+  | 'unquoted' // Inside a field that did not start with a quote
+  | 'quoted' // Inside a quoted field
+  | 'quoteInQuoted'; // Just read a quote inside a quoted field
+
+// Incremental RFC 4180 reader: text is pushed in arbitrary chunks and each
+// complete record is passed to onRow as an object keyed by header, together
+// with the line it starts on. Quoted fields may contain commas, escaped quotes
+// and line breaks. Structural problems are reported through onWarning and the
+// row is still emitted (padded or truncated to the header length).
+export function createCSVReader(
+  fileName: string,
+  onRow: (row: CSVRow, line: number) => void,
+  onWarning: (warning: CSVParseWarning) => void
+) {
+  let headers: string[] | null = null;
+  let fields: string[] = [];
+  let field = '';
+  let state: TokenizerState = 'fieldStart';
+  let line = 1;
+  let recordLine = 1;
+  let skipLineFeed = false;
+  let isFirstChunk = true;
+  let blankLines: number[] = [];
+  let warningCount = 0;
+
+  const warn = (lineNumber: number, problem: CSVParseWarning['problem'], message: string) => {
+    warningCount++;
+    if (warningCount <= MAX_WARNINGS_PER_FILE) {
+      onWarning({ file: fileName, line: lineNumber, problem, message });
+    }
+  };
+
+  const endField = () => {
+    fields.push(field);
+    field = '';
+    state = 'fieldStart';
+  };
+
+  const endRecord = () => {
+    endField();
+    const values = fields;
+    const startLine = recordLine;
+    fields = [];
+    recordLine = line;
+
+    // Blank lines are only worth reporting when more data follows them
+    if (values.length === 1 && values[0].trim() === '') {
+      if (headers) blankLines.push(startLine);
+      return;
+    }
+
+    if (!headers) {
+      headers = values.map((header) => header.trim());
+      const seen = new Set<string>();
+      for (const header of headers) {
+        if (seen.has(header)) {
+          warn(startLine, 'duplicate_header', `Column "${header}" appears more than once in the header`);
+        }
+        seen.add(header);
+      }
+      return;
+    }
+
+    for (const blankLine of blankLines) {
+      warn(blankLine, 'empty_line', 'Empty line inside the file');
+    }
+    blankLines = [];
+
+    if (values.length < headers.length) {
+      warn(
+        startLine,
+        'missing_columns',
+        `Row has ${values.length} field(s), header has ${headers.length}; missing values left empty`
+      );
+    } else if (values.length > headers.length) {
+      warn(
+        startLine,
+        'extra_columns',
+        `Row has ${values.length} field(s), header has ${headers.length}; extra values ignored`
+      );
+    }
+
+    const row: CSVRow = {};
+    headers.forEach((header, index) => {
+      row[header] = values[index]?.trim() ?? '';
+    });
+    onRow(row, startLine);
+  };
+
+  // Record separator: \n, \r\n or a lone \r
+  const endLine = (char: string) => {
+    line++;
+    skipLineFeed = char === '\r';
+    endRecord();
+  };
+
+  return {
+    push(text: string) {
+      let start = 0;
+      if (isFirstChunk && text.length > 0) {
+        isFirstChunk = false;
+        if (text.charCodeAt(0) === 0xfeff) start = 1;
+      }
+
+      for (let i = start; i < text.length; i++) {
+        const char = text[i];
+
+        if (skipLineFeed) {
+          skipLineFeed = false;
+          if (char === '\n') continue;
+        }
+
+        switch (state) {
+          case 'fieldStart':
+            if (char === '"') {
+              state = 'quoted';
+            } else if (char === ',') {
+              endField();
+            } else if (char === '\n' || char === '\r') {
+              endLine(char);
+            } else {
+              field += char;
+              state = 'unquoted';
+            }
+            break;
+
+          case 'unquoted':
+            if (char === ',') {
+              endField();
+            } else if (char === '\n' || char === '\r') {
+              endLine(char);
+            } else {
+              if (char === '"') {
+                warn(line, 'unexpected_quote', 'Quote inside an unquoted field kept as a literal character');
+              }
+              field += char;
+            }
+            break;
+
+          case 'quoted':
+            if (char === '"') {
+              state = 'quoteInQuoted';
+            } else {
+              if (char === '\n') line++;
+              field += char;
+            }
+            break;
+
+          case 'quoteInQuoted':
+            if (char === '"') {
+              field += '"';
+              state = 'quoted';
+            } else if (char === ',') {
+              endField();
+            } else if (char === '\n' || char === '\r') {
+              endLine(char);
+            } else {
+              warn(line, 'unexpected_quote', 'Text after a closing quote kept as part of the field');
+              field += char;
+              state = 'unquoted';
+            }
+            break;
+        }
+      }
+    },
+
+    end() {
+      if (state === 'quoted') {
+        warn(recordLine, 'unterminated_quote', 'Quoted field is never closed before the end of the file');
+      }
+      if (state !== 'fieldStart' || field !== '' || fields.length > 0) {
+        endRecord();
+      }
+
+      if (warningCount > MAX_WARNINGS_PER_FILE) {
+        onWarning({
+          file: fileName,
+          line: line,
+          problem: 'too_many_warnings',
+          message: `${warningCount - MAX_WARNINGS_PER_FILE} more warning(s) not shown`,
+        });
+      }
+    },
+  };
+}
@@ -0,0 +1,68 @@
+import type { TripSortKey, TripsListState } from '../types/gtfs';
+import { isValidGTFSDate } from './calendarService';
+
+// Explorer state stored in the URL hash, e.g.
+// #feed=3f2a...&view=date&date=20261225&q=42&sort=departure&order=desc&route=42
+export interface DeepLink {
+  feedHash: string; // GTFSFeedSource.contentHash of the feed the link was made for
+  view?: string;
+  date?: string; // YYYYMMDD
+  tripsList: TripsListState;
+}
+
+export const defaultTripsListState: TripsListState = {
+  searchTerm: '',
+  sortKey: 'route',
+  sortOrder: 'asc',
+  expandedRoutes: [],
+};
+
+const tripSortKeys: TripSortKey[] = [
+  'route',
+  'trip_id',
+  'headsign',
+  'service',
+  'days',
+  'departure',
+  'arrival',
+  'duration',
+  'stops',
+];
+
+// Read a deep link from a location hash, null when it does not name a feed
+export function parseDeepLink(hash: string): DeepLink | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const feedHash = params.get('feed');
+  if (!feedHash) return null;
+
+  const date = params.get('date');
+  const sortKey = params.get('sort') as TripSortKey | null;
+  const sortOrder = params.get('order');
+
+  return {
+    feedHash,
+    view: params.get('view') ?? undefined,
+    date: date && isValidGTFSDate(date) ? date : undefined,
+    tripsList: {
+      searchTerm: params.get('q') ?? '',
+      sortKey: sortKey && tripSortKeys.includes(sortKey) ? sortKey : defaultTripsListState.sortKey,
+      sortOrder: sortOrder === 'desc' ? 'desc' : 'asc',
+      expandedRoutes: params.getAll('route'),
+    },
+  };
+}
+
+// Write a deep link as a location hash, leaving out default values
+export function formatDeepLink(link: DeepLink): string {
+  const params = new URLSearchParams({ feed: link.feedHash });
+  if (link.view) params.set('view', link.view);
+  if (link.date) params.set('date', link.date);
+
+  const { searchTerm, sortKey, sortOrder, expandedRoutes } = link.tripsList;
+  if (searchTerm) params.set('q', searchTerm);
+  if (sortKey !== defaultTripsListState.sortKey) params.set('sort', sortKey);
+  if (sortOrder !== defaultTripsListState.sortOrder) params.set('order', sortOrder);
+  for (const route of expandedRoutes) params.append('route', route);
+
+  return `#${params.toString()}`;
+}
@@ -0,0 +1,144 @@
+import type { GTFSData } from '../types/gtfs';
+import { isValidGTFSDate } from './calendarService';
+
+// IndexedDB database holding previously loaded feeds
+const DB_NAME = 'gtfs-calendar';
+const DB_VERSION = 1;
+// Small records listed on the upload screen, keyed by content hash
+const ENTRIES_STORE = 'feeds';
+// Parsed data and original zip if kept, only read when a feed is reopened
+const DATA_STORE = 'feedData';
+
+// A feed of the local library, as listed on the upload screen
+export interface FeedLibraryEntry {
+  id: string; // GTFSFeedSource.contentHash
+  fileName: string;
+  fileSize: number; // Bytes of the original zip
+  dateRange: { start: string; end: string } | null; // YYYYMMDD
+  agencyNames: string[];
+  loadedAt: number; // Epoch milliseconds of the last upload
+  parseDuration?: number; // Milliseconds spent parsing the upload
+  hasFile: boolean;
+}
+
+interface FeedDataRecord {
+  id: string;
+  data: GTFSData;
+  file?: Blob; // Original zip, only when the user chose to keep it
+}
+
+// Wrap an IndexedDB request in a promise
+function toPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Resolve once a write transaction is committed
+function whenComplete(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available in this browser'));
+  }
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(ENTRIES_STORE)) {
+      db.createObjectStore(ENTRIES_STORE, { keyPath: 'id' });
+    }
+    if (!db.objectStoreNames.contains(DATA_STORE)) {
+      db.createObjectStore(DATA_STORE, { keyPath: 'id' });
+    }
+  };
+  return toPromise(request);
+}
+
+// Earliest and latest valid date of calendar.txt and calendar_dates.txt
+function getFeedDateRange(data: GTFSData): FeedLibraryEntry['dateRange'] {
+  const dates = [
+    ...data.calendars.flatMap((c) => [c.start_date, c.end_date]),
+    ...data.calendarDates.map((cd) => cd.date),
+  ].filter(isValidGTFSDate);
+  if (dates.length === 0) return null;
+
+  let start = dates[0];
+  let end = dates[0];
+  for (const date of dates) {
+    if (date < start) start = date;
+    if (date > end) end = date;
+  }
+  return { start, end };
+}
+
+// Every stored feed, most recently loaded first
+export async function listFeeds(): Promise<FeedLibraryEntry[]> {
+  const db = await openDatabase();
+  try {
+    const store = db.transaction(ENTRIES_STORE).objectStore(ENTRIES_STORE);
+    const entries = await toPromise<FeedLibraryEntry[]>(store.getAll());
+    return entries.sort((a, b) => b.loadedAt - a.loadedAt);
+  } finally {
+    db.close();
+  }
+}
+
+// Store a parsed feed, replacing an earlier copy of the same zip
+export async function saveFeed(
+  data: GTFSData,
+  options: { file?: Blob; parseDuration?: number } = {}
+): Promise<FeedLibraryEntry> {
+  const entry: FeedLibraryEntry = {
+    id: data.source.contentHash,
+    fileName: data.source.fileName,
+    fileSize: data.source.fileSize,
+    dateRange: getFeedDateRange(data),
+    agencyNames: data.agencies.map((agency) => agency.agency_name).filter(Boolean),
+    loadedAt: Date.now(),
+    parseDuration: options.parseDuration,
+    hasFile: options.file !== undefined,
+  };
+  const record: FeedDataRecord = { id: entry.id, data, file: options.file };
+
+  const db = await openDatabase();
+  try {
+    const transaction = db.transaction([ENTRIES_STORE, DATA_STORE], 'readwrite');
+    transaction.objectStore(ENTRIES_STORE).put(entry);
+    transaction.objectStore(DATA_STORE).put(record);
+    await whenComplete(transaction);
+    return entry;
+  } finally {
+    db.close();
+  }
+}
+
+// Parsed data and original zip of a stored feed, null when it was deleted meanwhile
+export async function loadFeed(id: string): Promise<{ data: GTFSData; file?: Blob } | null> {
+  const db = await openDatabase();
+  try {
+    const store = db.transaction(DATA_STORE).objectStore(DATA_STORE);
+    const record = await toPromise<FeedDataRecord | undefined>(store.get(id));
+    return record ? { data: record.data, file: record.file } : null;
+  } finally {
+    db.close();
+  }
+}
+
+export async function deleteFeed(id: string): Promise<void> {
+  const db = await openDatabase();
+  try {
+    const transaction = db.transaction([ENTRIES_STORE, DATA_STORE], 'readwrite');
+    transaction.objectStore(ENTRIES_STORE).delete(id);
+    transaction.objectStore(DATA_STORE).delete(id);
+    await whenComplete(transaction);
+  } finally {
+    db.close();
+  }
+}
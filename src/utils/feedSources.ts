@@ -0,0 +1,108 @@
+import type { GTFSInput } from './gtfsParser';
+
+// Feed name of a set of loose files, e.g. the dropped folder name
+const LOOSE_FILES_NAME = 'GTFS files';
+
+function isZip(file: File): boolean {
+  return file.name.toLowerCase().endsWith('.zip');
+}
+
+function isTxt(file: File): boolean {
+  return file.name.toLowerCase().endsWith('.txt');
+}
+
+// Turn picked or dropped files into a parser input, null when there is nothing to parse.
+// A single zip is parsed as such, anything else keeps only the .txt files.
+export function toGTFSInput(files: File[], folderName?: string): GTFSInput | null {
+  if (files.length === 1 && isZip(files[0])) return { kind: 'zip', file: files[0] };
+
+  const txtFiles = files.filter(isTxt);
+  if (txtFiles.length === 0) return null;
+  return { kind: 'files', files: txtFiles, name: folderName || LOOSE_FILES_NAME };
+}
+
+// Top folder of files picked with a directory input
+export function getFolderName(files: File[]): string | undefined {
+  return files[0]?.webkitRelativePath.split('/')[0] || undefined;
+}
+
+function readEntries(reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> {
+  return new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+}
+
+// Every file below a dropped entry, the reader returns directories in batches
+async function collectEntryFiles(entry: FileSystemEntry): Promise<File[]> {
+  if (entry.isFile) {
+    return [
+      await new Promise<File>((resolve, reject) =>
+        (entry as FileSystemFileEntry).file(resolve, reject)
+      ),
+    ];
+  }
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const files: File[] = [];
+  for (;;) {
+    const children = await readEntries(reader);
+    if (children.length === 0) return files;
+    for (const child of children) files.push(...(await collectEntryFiles(child)));
+  }
+}
+
+// Files of a drop, walking into dropped folders where the browser allows it
+export async function getDroppedFiles(
+  dataTransfer: DataTransfer
+): Promise<{ files: File[]; folderName?: string }> {
+  // Entries must be read synchronously, the data transfer is emptied after the event
+  const entries = Array.from(dataTransfer.items)
+    .map((item) => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+  if (entries.length === 0) return { files: Array.from(dataTransfer.files) };
+
+  const files = (await Promise.all(entries.map(collectEntryFiles))).flat();
+  const folder = entries.length === 1 && entries[0].isDirectory ? entries[0].name : undefined;
+  return { files, folderName: folder };
+}
+
+// File name of a feed URL, e.g. gtfs.zip for https://example.com/data/gtfs.zip?key=1
+function getURLFileName(url: URL): string {
+  const segment = url.pathname.split('/').pop() ?? '';
+  let name: string;
+  try {
+    name = decodeURIComponent(segment);
+  } catch {
+    // Malformed escapes such as %E0%A4%A, keep the segment as written
+    name = segment;
+  }
+  return name || `${url.hostname}.zip`;
+}
+
+// Download a GTFS zip from a URL
+export async function fetchGTFSFile(url: string, signal?: AbortSignal): Promise<File> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error(`Invalid URL: ${url}`);
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(parsed, { signal });
+  } catch (err) {
+    if (err instanceof DOMException && err.name === 'AbortError') throw err;
+    // The browser does not tell a CORS refusal from a network failure
+    throw new Error(
+      `Could not download ${parsed.href}. The server may not allow cross-origin requests ` +
+        '(CORS) or may be unreachable. Download the file yourself and drop it here instead.'
+    );
+  }
+  if (!response.ok) {
+    throw new Error(
+      `Could not download ${parsed.href}: HTTP ${response.status} ${response.statusText}`.trim()
+    );
+  }
+
+  const blob = await response.blob();
+  return new File([blob], getURLFileName(parsed), { type: blob.type });
+}
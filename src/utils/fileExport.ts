@@ -0,0 +1,51 @@
+// Quote a CSV field when it contains a separator, quote or line break
+function escapeCSVField(value: string | number | null | undefined): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Build an RFC 4180 CSV document from a header and rows
+export function formatCSV(
+  headers: string[],
+  rows: (string | number | null | undefined)[][]
+): string {
+  return [headers, ...rows].map((row) => row.map(escapeCSVField).join(',')).join('\r\n') + '\r\n';
+}
+
+// Escape text for inclusion in HTML markup
+export function escapeHTML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// File name without its extension, to derive export names from an upload
+export function getBaseName(fileName: string): string {
+  const dot = fileName.lastIndexOf('.');
+  return dot > 0 ? fileName.slice(0, dot) : fileName;
+}
+
+// Human-readable file size
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Save a blob as a file through a temporary object URL
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Save text as a file
+export function downloadTextFile(content: string, fileName: string, type: string) {
+  downloadBlob(new Blob([content], { type }), fileName);
+}
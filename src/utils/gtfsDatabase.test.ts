@@ -0,0 +1,68 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  buildServiceIndex,
+  eachGTFSDate,
+  getActiveServiceIds,
+  getDateCoverage,
+  getTripCount,
+  getTripsForDate,
+} from './calendarService';
+import {
+  activeServicesQuery,
+  createGTFSDatabase,
+  getServiceQueries,
+  runQuery,
+} from './gtfsDatabase';
+import { createFeed, edgeCaseFeed } from '../test/calendarFixtures';
+
+// Vite serves the wasm from a URL, sql.js reads it from disk under Node
+vi.mock('sql.js/dist/sql-wasm.wasm?url', async () => {
+  const { createRequire } = await import('node:module');
+  return { default: createRequire(import.meta.url).resolve('sql.js/dist/sql-wasm.wasm') };
+});
+
+describe('activeServicesQuery', () => {
+  it.each([
+    ['edge cases', edgeCaseFeed],
+    ['exceptions only', createFeed([], edgeCaseFeed.calendarDates)],
+  ])('gives the same services as the calendar index (%s)', async (_, feed) => {
+    const index = buildServiceIndex(feed);
+    const db = await createGTFSDatabase(feed);
+    try {
+      for (const dateString of [...eachGTFSDate('20231201', '20240501'), '20240230', 'abc']) {
+        const [result] = runQuery(db, activeServicesQuery, { ':date': dateString });
+        const serviceIds = result ? result.rows.map((row) => String(row[0])) : [];
+        expect(serviceIds, dateString).toEqual([...getActiveServiceIds(index, dateString)].sort());
+      }
+    } finally {
+      db.close();
+    }
+  });
+});
+
+describe('getServiceQueries', () => {
+  it.each([
+    ['edge cases', edgeCaseFeed],
+    ['exceptions only', createFeed([], edgeCaseFeed.calendarDates)],
+  ])('answers the per-date lookups like the calendar index (%s)', async (_, feed) => {
+    const index = buildServiceIndex(feed);
+    const db = await createGTFSDatabase(feed);
+    try {
+      const sqlIndex = { ...index, queries: getServiceQueries(db) };
+      for (const dateString of [...eachGTFSDate('20231201', '20240501'), '20240230', 'abc']) {
+        expect([...getActiveServiceIds(sqlIndex, dateString)].sort(), dateString).toEqual(
+          [...getActiveServiceIds(index, dateString)].sort()
+        );
+        expect(getTripsForDate(sqlIndex, dateString), dateString).toEqual(
+          getTripsForDate(index, dateString)
+        );
+        expect(getTripCount(sqlIndex, dateString), dateString).toBe(
+          getTripCount(index, dateString)
+        );
+      }
+      expect(getDateCoverage(sqlIndex)).toEqual(getDateCoverage(index));
+    } finally {
+      db.close();
+    }
+  });
+});
@@ -0,0 +1,250 @@
+import initSqlJs from 'sql.js';
+import type { BindParams, Database, SqlJsStatic, SqlValue } from 'sql.js';
+import sqlWasmUrl from 'sql.js/dist/sql-wasm.wasm?url';
+import type { GTFSData, ServiceQueries } from '../types/gtfs';
+
+// Result of one statement run in the SQL console
+export interface QueryResult {
+  columns: string[];
+  rows: SqlValue[][];
+}
+
+// A table created from a GTFSData array, with its columns in file order
+interface TableSpec {
+  name: string;
+  columns: { name: string; type: 'TEXT' | 'INTEGER' }[];
+  rows: object[];
+}
+
+// The wasm module is fetched once, on first use of the console
+let sqlJsPromise: Promise<SqlJsStatic> | null = null;
+
+function loadSqlJs(): Promise<SqlJsStatic> {
+  sqlJsPromise ??= initSqlJs({ locateFile: () => sqlWasmUrl }).catch((err) => {
+    sqlJsPromise = null;
+    throw err;
+  });
+  return sqlJsPromise;
+}
+
+const text = (name: string) => ({ name, type: 'TEXT' as const });
+const integer = (name: string) => ({ name, type: 'INTEGER' as const });
+
+// Booleans become 0/1 as in the feed, missing optional fields become NULL
+function toSqlValue(value: unknown): SqlValue {
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'string' || typeof value === 'number') return value;
+  return null;
+}
+
+function fieldValue(row: object, column: string): SqlValue {
+  if (column === 'source_line') return toSqlValue((row as { sourceLine?: number }).sourceLine);
+  return toSqlValue((row as Record<string, unknown>)[column]);
+}
+
+// Index the lookups made by the calendar queries and the usual joins
+const indexStatements = [
+  'CREATE INDEX idx_calendar_service ON calendar (service_id)',
+  'CREATE INDEX idx_calendar_range ON calendar (start_date, end_date)',
+  'CREATE INDEX idx_calendar_dates_date ON calendar_dates (date)',
+  'CREATE INDEX idx_calendar_dates_service ON calendar_dates (service_id)',
+  'CREATE INDEX idx_routes_route ON routes (route_id)',
+  'CREATE INDEX idx_trips_trip ON trips (trip_id)',
+  'CREATE INDEX idx_trips_route ON trips (route_id)',
+  'CREATE INDEX idx_trips_service ON trips (service_id)',
+  'CREATE INDEX idx_trip_stop_times_trip ON trip_stop_times (trip_id)',
+];
+
+function getTableSpecs(data: GTFSData): TableSpec[] {
+  const weekdays = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+  return [
+    {
+      name: 'agency',
+      columns: [
+        'agency_id',
+        'agency_name',
+        'agency_url',
+        'agency_timezone',
+        'agency_lang',
+        'agency_phone',
+        'agency_fare_url',
+        'agency_email',
+      ].map(text),
+      rows: data.agencies,
+    },
+    {
+      name: 'calendar',
+      columns: [
+        text('service_id'),
+        ...weekdays.map(integer),
+        text('start_date'),
+        text('end_date'),
+        integer('source_line'),
+      ],
+      rows: data.calendars,
+    },
+    {
+      name: 'calendar_dates',
+      columns: [text('service_id'), text('date'), integer('exception_type'), integer('source_line')],
+      rows: data.calendarDates,
+    },
+    {
+      name: 'routes',
+      columns: [
+        text('route_id'),
+        text('agency_id'),
+        text('route_short_name'),
+        text('route_long_name'),
+        text('route_desc'),
+        integer('route_type'),
+        text('route_url'),
+        text('route_color'),
+        text('route_text_color'),
+        integer('route_sort_order'),
+        integer('source_line'),
+      ],
+      rows: data.routes,
+    },
+    {
+      name: 'trips',
+      columns: [
+        text('route_id'),
+        text('service_id'),
+        text('trip_id'),
+        text('trip_headsign'),
+        text('trip_short_name'),
+        integer('direction_id'),
+        text('block_id'),
+        text('shape_id'),
+        integer('wheelchair_accessible'),
+        integer('bikes_allowed'),
+        integer('source_line'),
+      ],
+      rows: data.trips,
+    },
+    {
+      // Per-trip summary of stop_times.txt, times in seconds after the service day start
+      name: 'trip_stop_times',
+      columns: [
+        text('trip_id'),
+        text('first_stop_id'),
+        text('last_stop_id'),
+        integer('departure_time'),
+        integer('arrival_time'),
+        integer('duration'),
+        integer('stop_count'),
+      ],
+      rows: data.tripStopTimes,
+    },
+  ];
+}
+
+// Load every parsed table of a feed into a new in-memory SQLite database
+export async function createGTFSDatabase(data: GTFSData): Promise<Database> {
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database();
+
+  try {
+    db.run('BEGIN');
+    for (const spec of getTableSpecs(data)) {
+      const columns = spec.columns.map((column) => `${column.name} ${column.type}`).join(', ');
+      db.run(`CREATE TABLE ${spec.name} (${columns})`);
+
+      const placeholders = spec.columns.map(() => '?').join(', ');
+      const insert = db.prepare(`INSERT INTO ${spec.name} VALUES (${placeholders})`);
+      try {
+        for (const row of spec.rows) {
+          insert.run(spec.columns.map((column) => fieldValue(row, column.name)));
+        }
+      } finally {
+        insert.free();
+      }
+    }
+    for (const statement of indexStatements) db.run(statement);
+    db.run('COMMIT');
+  } catch (err) {
+    db.close();
+    throw err;
+  }
+
+  return db;
+}
+
+// Run one or more statements, returning the result of each one that produced rows.
+// Named parameters missing from a statement are ignored.
+export function runQuery(db: Database, sql: string, params?: BindParams): QueryResult[] {
+  return db.exec(sql, params).map((result) => ({ columns: result.columns, rows: result.values }));
+}
+
+// SQL condition: a YYYYMMDD text is a real calendar date, as isValidGTFSDate checks
+function validDateSql(expression: string): string {
+  const iso = `substr(${expression}, 1, 4) || '-' || substr(${expression}, 5, 2) || '-' || substr(${expression}, 7, 2)`;
+  return `(${expression} GLOB '[0-9][0-9][0-9][0-9][0-9][0-9][0-9][0-9]' AND ${expression} >= '01000101'
+      AND strftime('%Y%m%d', ${iso}) = ${expression})`;
+}
+
+// Services active on :date (YYYYMMDD), with the same rules as buildServiceIndex:
+// - calendar.txt rows with malformed dates never match, reversed ranges are swapped
+// - the first calendar_dates.txt row of a calendar.txt service on that date decides:
+//   1 adds it, 2 and invalid types remove it
+// - services only in calendar_dates.txt run when any row of that date adds them
+export const activeServicesQuery = `WITH day AS (
+  SELECT date,
+    CAST(strftime('%w', substr(date, 1, 4) || '-' || substr(date, 5, 2) || '-' || substr(date, 7, 2)) AS INTEGER) AS dow
+  FROM (SELECT :date AS date)
+  WHERE ${validDateSql('date')}
+),
+base AS (
+  SELECT c.service_id FROM calendar c, day
+  WHERE ${validDateSql('c.start_date')}
+    AND ${validDateSql('c.end_date')}
+    AND day.date BETWEEN MIN(c.start_date, c.end_date) AND MAX(c.start_date, c.end_date)
+    AND CASE day.dow WHEN 0 THEN c.sunday WHEN 1 THEN c.monday WHEN 2 THEN c.tuesday
+      WHEN 3 THEN c.wednesday WHEN 4 THEN c.thursday WHEN 5 THEN c.friday ELSE c.saturday END = 1
+),
+exception AS (
+  SELECT service_id, exception_type, MIN(rowid) FROM calendar_dates, day
+  WHERE calendar_dates.date = day.date GROUP BY service_id
+)
+SELECT service_id FROM base
+WHERE service_id NOT IN (SELECT service_id FROM exception)
+UNION
+SELECT service_id FROM exception
+WHERE exception_type = 1 AND service_id IN (SELECT service_id FROM calendar)
+UNION
+SELECT service_id FROM calendar_dates, day
+WHERE calendar_dates.date = day.date AND exception_type = 1
+  AND service_id NOT IN (SELECT service_id FROM calendar)
+ORDER BY service_id`;
+
+// First column of every row of a statement run on one date
+function queryColumn(db: Database, sql: string, dateString: string): SqlValue[] {
+  const statement = db.prepare(sql);
+  try {
+    statement.bind({ ':date': dateString });
+    const values: SqlValue[] = [];
+    while (statement.step()) values.push(statement.get()[0]);
+    return values;
+  } finally {
+    statement.free();
+  }
+}
+
+// Trips are inserted in trips.txt order, so rowid - 1 is the index into tripsWithRoute
+const activeTripIndicesQuery = `SELECT rowid - 1 FROM trips
+WHERE service_id IN (${activeServicesQuery})
+ORDER BY rowid`;
+
+const activeTripCountQuery = `SELECT COUNT(*) FROM trips
+WHERE service_id IN (${activeServicesQuery})`;
+
+// Per-date lookups of the index answered in SQL, for a database built from the index data
+export function getServiceQueries(db: Database): ServiceQueries {
+  return {
+    getActiveServiceIds: (dateString) =>
+      queryColumn(db, activeServicesQuery, dateString).map(String),
+    getTripIndices: (dateString) =>
+      queryColumn(db, activeTripIndicesQuery, dateString).map(Number),
+    getTripCount: (dateString) => Number(queryColumn(db, activeTripCountQuery, dateString)[0]),
+  };
+}
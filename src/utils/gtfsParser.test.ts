@@ -0,0 +1,74 @@
+import { createHash } from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import { parseGTFS } from './gtfsParser';
+
+const calendarTxt =
+  'service_id,monday,tuesday,wednesday,thursday,friday,saturday,sunday,start_date,end_date\n' +
+  'WK,1,1,1,1,1,0,0,20260101,20261231\n';
+const tripsTxt = 'route_id,service_id,trip_id\nR1,WK,T1\nR1,WK,T2\n';
+const routesTxt = 'route_id,route_short_name,route_type\nR1,1,3\n';
+
+async function createZip(files: Record<string, string>): Promise<File> {
+  const zip = new JSZip();
+  for (const [name, content] of Object.entries(files)) zip.file(name, content);
+  return new File([await zip.generateAsync({ type: 'arraybuffer' })], 'feed.zip');
+}
+
+describe('parseGTFS', () => {
+  it('identifies a zip by the SHA-256 of the archive', async () => {
+    const file = await createZip({ 'calendar.txt': calendarTxt, 'trips.txt': tripsTxt });
+    const data = await parseGTFS({ kind: 'zip', file });
+
+    const expected = createHash('sha256')
+      .update(new Uint8Array(await file.arrayBuffer()))
+      .digest('hex');
+    expect(data.source.contentHash).toBe(expected);
+    expect(data.calendars).toHaveLength(1);
+    expect(data.trips).toHaveLength(2);
+  });
+
+  it('reads the files of a zip wrapped in a single folder', async () => {
+    const file = await createZip({
+      'gtfs/calendar.txt': calendarTxt,
+      'gtfs/trips.txt': tripsTxt,
+      'gtfs/routes.txt': routesTxt,
+      '__MACOSX/gtfs/._calendar.txt': '',
+    });
+    const data = await parseGTFS({ kind: 'zip', file });
+    expect(data.calendars).toHaveLength(1);
+    expect(data.trips).toHaveLength(2);
+    expect(data.routes).toHaveLength(1);
+  });
+
+  it('rejects a zip holding several feeds', async () => {
+    const file = await createZip({ 'a/calendar.txt': calendarTxt, 'b/calendar.txt': calendarTxt });
+    await expect(parseGTFS({ kind: 'zip', file })).rejects.toThrow('several feeds (a/, b/)');
+  });
+
+  it('parses loose files whatever their order', async () => {
+    const files = [
+      new File([tripsTxt], 'trips.txt'),
+      new File([calendarTxt], 'calendar.txt'),
+      new File([routesTxt], 'routes.txt'),
+    ];
+    const data = await parseGTFS({ kind: 'files', files, name: 'feed' });
+    const reversed = await parseGTFS({ kind: 'files', files: [...files].reverse(), name: 'feed' });
+
+    expect(data.source.fileName).toBe('feed');
+    expect(data.source.files).toEqual(['calendar.txt', 'routes.txt', 'trips.txt']);
+    expect(data.trips).toHaveLength(2);
+    expect(reversed.source.contentHash).toBe(data.source.contentHash);
+  });
+
+  it('rejects loose files of several feeds', async () => {
+    const files = [
+      new File([calendarTxt], 'calendar.txt'),
+      new File([tripsTxt], 'trips.txt'),
+      new File([calendarTxt], 'calendar.txt'),
+    ];
+    await expect(parseGTFS({ kind: 'files', files, name: 'feeds' })).rejects.toThrow(
+      'several calendar.txt'
+    );
+  });
+});
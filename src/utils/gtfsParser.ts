@@ -1,66 +1,128 @@
 import JSZip from 'jszip';
+import { createCSVReader } from './csvReader';
+import { parseGTFSTime } from './gtfsTime';
+import type { CSVRow } from './csvReader';
 import type {
+  CSVParseWarning,
+  GTFSAgency,
   GTFSCalendar,
   GTFSCalendarDate,
   GTFSTrip,
   GTFSRoute,
   GTFSData,
+  GTFSFeedSource,
+  TripStopTimesSummary,
 } from '../types/gtfs';
 
-// Parse CSV text into array of objects
-function parseCSV<T>(csvText: string): T[] {
-  const lines = csvText.trim().split(/\r?\n/);
-  if (lines.length < 2) return [];
+// Progress of the file currently being parsed
+export interface ParseProgress {
+  fileName: string;
+  fileIndex: number; // Position among the GTFS files being parsed (0-based)
+  fileCount: number;
+  bytesRead: number; // Uncompressed bytes read so far
+  totalBytes: number; // Uncompressed size, 0 if unknown
+  percent: number; // 0-100 for the current file
+  rowsParsed: number;
+}
 
-  const headers = parseCSVLine(lines[0]);
-  const results: T[] = [];
+// What to parse: a zip archive, or the loose .txt files of one feed
+export type GTFSInput = { kind: 'zip'; file: File } | { kind: 'files'; files: File[]; name: string };
 
-  for (let i = 1; i < lines.length; i++) {
-    const values = parseCSVLine(lines[i]);
-    if (values.length === 0) continue;
+export interface ParseOptions {
+  onFileList?: (files: string[]) => void;
+  onProgress?: (progress: ParseProgress) => void;
+}
 
-    const obj: Record<string, string> = {};
-    headers.forEach((header, index) => {
-      obj[header.trim()] = values[index]?.trim() ?? '';
-    });
-    results.push(obj as T);
-  }
+// JSZipObject.internalStream and the uncompressed size exist at runtime but
+// are missing from the typings
+type StreamableZipObject = JSZip.JSZipObject & {
+  internalStream(type: 'uint8array'): JSZip.JSZipStreamHelper<Uint8Array>;
+  _data?: { uncompressedSize?: number };
+};
 
-  return results;
+// Parse an agency.txt row
+function parseAgency(row: CSVRow): GTFSAgency {
+  return {
+    agency_id: row.agency_id || undefined,
+    agency_name: row.agency_name,
+    agency_url: row.agency_url,
+    agency_timezone: row.agency_timezone,
+    agency_lang: row.agency_lang || undefined,
+    agency_phone: row.agency_phone || undefined,
+    agency_fare_url: row.agency_fare_url || undefined,
+    agency_email: row.agency_email || undefined,
+  };
 }
 
-// Parse a single CSV line handling quoted fields
-function parseCSVLine(line: string): string[] {
-  const result: string[] = [];
-  let current = '';
-  let inQuotes = false;
+// Allowed values of a field, as a list of exact texts or a predicate
+type FieldCheck = string[] | ((value: string) => boolean);
 
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-
-    if (char === '"') {
-      if (inQuotes && line[i + 1] === '"') {
-        current += '"';
-        i++;
-      } else {
-        inQuotes = !inQuotes;
-      }
-    } else if (char === ',' && !inQuotes) {
-      result.push(current);
-      current = '';
-    } else {
-      current += char;
+// Keep the original text of fields whose value is not one of the allowed ones
+function collectInvalidFields(
+  row: CSVRow,
+  allowed: Record<string, FieldCheck>
+): Record<string, string> | undefined {
+  let invalidFields: Record<string, string> | undefined;
+  for (const [field, check] of Object.entries(allowed)) {
+    const value = row[field] ?? '';
+    const isValid = typeof check === 'function' ? check(value) : check.includes(value);
+    if (!isValid) {
+      invalidFields = { ...invalidFields, [field]: value };
     }
   }
-  result.push(current);
+  return invalidFields;
+}
+
+const dayFlagValues = ['0', '1'];
+const directionValues = ['0', '1'];
+const optionalAccessibilityValues = ['', '0', '1', '2'];
+
+// Basic route types, then the extended Hierarchical Vehicle Types accepted by most consumers
+const routeTypeValues = [
+  ...['0', '1', '2', '3', '4', '5', '6', '7', '11', '12'],
+  ...[
+    [100, 117],
+    [200, 209],
+    [400, 405],
+    [700, 716],
+    [800, 800],
+    [900, 906],
+    [1000, 1000],
+    [1100, 1100],
+    [1200, 1200],
+    [1300, 1307],
+    [1400, 1400],
+    [1500, 1507],
+    [1700, 1702],
+  ].flatMap(([first, last]) =>
+    Array.from({ length: last - first + 1 }, (_, i) => String(first + i))
+  ),
+];
+
+// Six hexadecimal digits without a leading #
+function isOptionalColor(value: string): boolean {
+  return value === '' || /^[0-9A-Fa-f]{6}$/.test(value);
+}
+
+// Absolute http(s) URL
+function isOptionalURL(value: string): boolean {
+  if (value === '') return true;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
 
-  return result;
+// Parse an optional 0/1/2 enumeration, leaving anything else undefined
+function parseOptionalEnum<T extends number>(value: string, allowed: string[]): T | undefined {
+  return value !== '' && allowed.includes(value) ? (Number(value) as T) : undefined;
 }
 
-// Parse calendar.txt
-function parseCalendars(csvText: string): GTFSCalendar[] {
-  const raw = parseCSV<Record<string, string>>(csvText);
-  return raw.map((row) => ({
+// Parse a calendar.txt row
+function parseCalendar(row: CSVRow, line: number): GTFSCalendar {
+  return {
     service_id: row.service_id,
     monday: row.monday === '1',
     tuesday: row.tuesday === '1',
@@ -71,38 +133,58 @@ function parseCalendars(csvText: string): GTFSCalendar[] {
     sunday: row.sunday === '1',
     start_date: row.start_date,
     end_date: row.end_date,
-  }));
+    sourceLine: line,
+    invalidFields: collectInvalidFields(row, {
+      monday: dayFlagValues,
+      tuesday: dayFlagValues,
+      wednesday: dayFlagValues,
+      thursday: dayFlagValues,
+      friday: dayFlagValues,
+      saturday: dayFlagValues,
+      sunday: dayFlagValues,
+    }),
+  };
 }
 
-// Parse calendar_dates.txt
-function parseCalendarDates(csvText: string): GTFSCalendarDate[] {
-  const raw = parseCSV<Record<string, string>>(csvText);
-  return raw.map((row) => ({
+// Parse a calendar_dates.txt row
+function parseCalendarDate(row: CSVRow, line: number): GTFSCalendarDate {
+  return {
     service_id: row.service_id,
     date: row.date,
     exception_type: parseInt(row.exception_type, 10) as 1 | 2,
-  }));
+    sourceLine: line,
+    invalidFields: collectInvalidFields(row, { exception_type: ['1', '2'] }),
+  };
 }
 
-// Parse trips.txt
-function parseTrips(csvText: string): GTFSTrip[] {
-  const raw = parseCSV<Record<string, string>>(csvText);
-  return raw.map((row) => ({
+// Parse a trips.txt row
+function parseTrip(row: CSVRow, line: number): GTFSTrip {
+  return {
     route_id: row.route_id,
     service_id: row.service_id,
     trip_id: row.trip_id,
     trip_headsign: row.trip_headsign || undefined,
     trip_short_name: row.trip_short_name || undefined,
-    direction_id: row.direction_id ? (parseInt(row.direction_id, 10) as 0 | 1) : undefined,
+    direction_id: parseOptionalEnum<0 | 1>(row.direction_id ?? '', directionValues),
     block_id: row.block_id || undefined,
     shape_id: row.shape_id || undefined,
-  }));
+    wheelchair_accessible: parseOptionalEnum<0 | 1 | 2>(
+      row.wheelchair_accessible ?? '',
+      optionalAccessibilityValues
+    ),
+    bikes_allowed: parseOptionalEnum<0 | 1 | 2>(row.bikes_allowed ?? '', optionalAccessibilityValues),
+    sourceLine: line,
+    invalidFields: collectInvalidFields(row, {
+      direction_id: ['', ...directionValues],
+      wheelchair_accessible: optionalAccessibilityValues,
+      bikes_allowed: optionalAccessibilityValues,
+    }),
+  };
 }
 
-// Parse routes.txt
-function parseRoutes(csvText: string): GTFSRoute[] {
-  const raw = parseCSV<Record<string, string>>(csvText);
-  return raw.map((row) => ({
+// Parse a routes.txt row
+function parseRoute(row: CSVRow, line: number): GTFSRoute {
+  return {
     route_id: row.route_id,
     agency_id: row.agency_id || undefined,
     route_short_name: row.route_short_name || undefined,
@@ -110,58 +192,325 @@ function parseRoutes(csvText: string): GTFSRoute[] {
     route_desc: row.route_desc || undefined,
     route_type: parseInt(row.route_type, 10),
     route_url: row.route_url || undefined,
-    route_color: row.route_color || undefined,
-    route_text_color: row.route_text_color || undefined,
-  }));
+    // Invalid colors are dropped so they never reach the page styles
+    route_color: isOptionalColor(row.route_color ?? '') ? row.route_color || undefined : undefined,
+    route_text_color: isOptionalColor(row.route_text_color ?? '')
+      ? row.route_text_color || undefined
+      : undefined,
+    sourceLine: line,
+    invalidFields: collectInvalidFields(row, {
+      route_type: routeTypeValues,
+      route_url: isOptionalURL,
+      route_color: isOptionalColor,
+      route_text_color: isOptionalColor,
+    }),
+  };
 }
 
-// Main function to parse GTFS zip file
-export async function parseGTFSZip(file: File): Promise<GTFSData> {
-  const zip = new JSZip();
-  const contents = await zip.loadAsync(file);
+// Running first/last stop state for one trip while streaming stop_times.txt
+interface StopTimesAccumulator {
+  minSequence: number;
+  maxSequence: number;
+  firstStopId: string;
+  lastStopId: string;
+  departureTime: string;
+  arrivalTime: string;
+  stopCount: number;
+}
+
+// Reduce stop_times.txt rows to one summary per trip without keeping the rows,
+// since it is usually by far the largest file in a feed
+function createStopTimesSummarizer() {
+  const byTrip = new Map<string, StopTimesAccumulator>();
+  let rowIndex = 0;
+
+  return {
+    add(row: CSVRow) {
+      // Fall back to file order when stop_sequence is unusable
+      const parsedSequence = parseInt(row.stop_sequence, 10);
+      const sequence = Number.isNaN(parsedSequence) ? rowIndex : parsedSequence;
+      rowIndex++;
+
+      const departureTime = row.departure_time || row.arrival_time;
+      const arrivalTime = row.arrival_time || row.departure_time;
+      const existing = byTrip.get(row.trip_id);
+
+      if (!existing) {
+        byTrip.set(row.trip_id, {
+          minSequence: sequence,
+          maxSequence: sequence,
+          firstStopId: row.stop_id,
+          lastStopId: row.stop_id,
+          departureTime,
+          arrivalTime,
+          stopCount: 1,
+        });
+        return;
+      }
 
+      existing.stopCount++;
+      if (sequence < existing.minSequence) {
+        existing.minSequence = sequence;
+        existing.firstStopId = row.stop_id;
+        existing.departureTime = departureTime;
+      }
+      if (sequence >= existing.maxSequence) {
+        existing.maxSequence = sequence;
+        existing.lastStopId = row.stop_id;
+        existing.arrivalTime = arrivalTime;
+      }
+    },
+
+    summaries(): TripStopTimesSummary[] {
+      return Array.from(byTrip, ([tripId, acc]) => {
+        const departure = parseGTFSTime(acc.departureTime) ?? undefined;
+        const arrival = parseGTFSTime(acc.arrivalTime) ?? undefined;
+        return {
+          trip_id: tripId,
+          first_stop_id: acc.firstStopId,
+          last_stop_id: acc.lastStopId,
+          departure_time: departure,
+          arrival_time: arrival,
+          duration:
+            departure !== undefined && arrival !== undefined ? arrival - departure : undefined,
+          stop_count: acc.stopCount,
+        };
+      });
+    },
+  };
+}
+
+// A GTFS file to stream, from a zip entry or a loose file
+interface GTFSEntry {
+  size: number; // Uncompressed bytes, 0 if unknown
+  // Pass every chunk of raw bytes to onData with the reader's own progress estimate
+  read: (onData: (chunk: Uint8Array, percent: number) => void) => Promise<void>;
+}
+
+// A feed needs at least one of these
+const requiredFileNames = ['calendar.txt', 'calendar_dates.txt'];
+
+function zipEntry(entry: StreamableZipObject): GTFSEntry {
+  return {
+    size: entry._data?.uncompressedSize ?? 0,
+    read: (onData) =>
+      new Promise((resolve, reject) => {
+        entry
+          .internalStream('uint8array')
+          .on('data', (chunk, metadata) => onData(chunk, metadata.percent))
+          .on('error', reject)
+          .on('end', () => resolve())
+          .resume();
+      }),
+  };
+}
+
+function blobEntry(file: Blob): GTFSEntry {
+  return {
+    size: file.size,
+    read: async (onData) => {
+      const reader = file.stream().getReader();
+      let bytesRead = 0;
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) return;
+        bytesRead += value.length;
+        onData(value, file.size > 0 ? (bytesRead / file.size) * 100 : 0);
+      }
+    },
+  };
+}
+
+// Stream a GTFS file through the CSV reader, reporting progress per chunk
+async function streamCSVFile(
+  fileName: string,
+  entry: GTFSEntry,
+  onRow: (row: CSVRow, line: number) => void,
+  onWarning: (warning: CSVParseWarning) => void,
+  onChunk: (bytesRead: number, percent: number) => void
+): Promise<number> {
+  // Keep the BOM in the text so the CSV reader is the one place handling it
+  const decoder = new TextDecoder('utf-8', { ignoreBOM: true });
+  const reader = createCSVReader(fileName, onRow, onWarning);
+  let bytesRead = 0;
+
+  await entry.read((chunk, percent) => {
+    bytesRead += chunk.length;
+    reader.push(decoder.decode(chunk, { stream: true }));
+    onChunk(bytesRead, percent);
+  });
+  reader.push(decoder.decode());
+  reader.end();
+  return bytesRead;
+}
+
+// SHA-256 of some bytes as lowercase hex
+async function sha256(data: BufferSource): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// List the non-directory entries of a loaded zip
+function listZipFiles(contents: JSZip): string[] {
+  return Object.keys(contents.files).filter((name) => !contents.files[name].dir);
+}
+
+// Folder holding the GTFS files in a zip: the root, or the one subdirectory wrapping them
+function findGTFSRoot(files: string[]): string {
+  if (files.some((name) => requiredFileNames.includes(name))) return '';
+
+  const roots = new Set(
+    files
+      .filter((name) => !name.startsWith('__MACOSX/'))
+      .filter((name) => requiredFileNames.some((required) => name.endsWith(`/${required}`)))
+      .map((name) => name.slice(0, name.lastIndexOf('/') + 1))
+  );
+  if (roots.size > 1) {
+    throw new Error(
+      `GTFS file contains several feeds (${[...roots].join(', ')}), keep only one of them`
+    );
+  }
+  return [...roots][0] ?? '';
+}
+
+function assertRequiredFiles(entries: Map<string, GTFSEntry>) {
+  if (!requiredFileNames.some((name) => entries.has(name))) {
+    throw new Error('GTFS file must contain calendar.txt or calendar_dates.txt');
+  }
+}
+
+// Parse the GTFS files of a feed, whatever they were read from
+async function parseGTFSEntries(
+  source: GTFSFeedSource,
+  entries: Map<string, GTFSEntry>,
+  options: ParseOptions
+): Promise<GTFSData> {
   // Initialize empty data
   const data: GTFSData = {
+    source,
+    agencies: [],
     calendars: [],
     calendarDates: [],
     trips: [],
     routes: [],
+    tripStopTimes: [],
+    parseWarnings: [],
   };
+  const stopTimes = createStopTimesSummarizer();
 
-  // Parse calendar.txt if exists
-  const calendarFile = contents.file('calendar.txt');
-  if (calendarFile) {
-    const csvText = await calendarFile.async('text');
-    data.calendars = parseCalendars(csvText);
-  }
+  const handlers: [string, (row: CSVRow, line: number) => void][] = [
+    ['agency.txt', (row) => data.agencies.push(parseAgency(row))],
+    ['calendar.txt', (row, line) => data.calendars.push(parseCalendar(row, line))],
+    ['calendar_dates.txt', (row, line) => data.calendarDates.push(parseCalendarDate(row, line))],
+    ['trips.txt', (row, line) => data.trips.push(parseTrip(row, line))],
+    ['routes.txt', (row, line) => data.routes.push(parseRoute(row, line))],
+    ['stop_times.txt', (row) => stopTimes.add(row)],
+  ];
+  const present = handlers.filter(([fileName]) => entries.has(fileName));
 
-  // Parse calendar_dates.txt if exists
-  const calendarDatesFile = contents.file('calendar_dates.txt');
-  if (calendarDatesFile) {
-    const csvText = await calendarDatesFile.async('text');
-    data.calendarDates = parseCalendarDates(csvText);
-  }
+  for (const [fileIndex, [fileName, handleRow]] of present.entries()) {
+    const entry = entries.get(fileName) as GTFSEntry;
+    const totalBytes = entry.size;
+    let rowsParsed = 0;
 
-  // Parse trips.txt if exists
-  const tripsFile = contents.file('trips.txt');
-  if (tripsFile) {
-    const csvText = await tripsFile.async('text');
-    data.trips = parseTrips(csvText);
-  }
+    // JSZip's own percent follows the compressed input, prefer the decoded byte count
+    const report = (bytesRead: number, entryPercent: number) =>
+      options.onProgress?.({
+        fileName,
+        fileIndex,
+        fileCount: present.length,
+        bytesRead,
+        totalBytes,
+        percent: totalBytes > 0 ? Math.min(100, (bytesRead / totalBytes) * 100) : entryPercent,
+        rowsParsed,
+      });
 
-  // Parse routes.txt if exists
-  const routesFile = contents.file('routes.txt');
-  if (routesFile) {
-    const csvText = await routesFile.async('text');
-    data.routes = parseRoutes(csvText);
+    report(0, 0);
+    const bytesRead = await streamCSVFile(
+      fileName,
+      entry,
+      (row, line) => {
+        rowsParsed++;
+        handleRow(row, line);
+      },
+      (warning) => data.parseWarnings.push(warning),
+      report
+    );
+    report(bytesRead, 100);
   }
 
+  data.tripStopTimes = stopTimes.summaries();
+
   return data;
 }
 
-// Get list of files in GTFS zip
-export async function listGTFSFiles(file: File): Promise<string[]> {
+// Parse a GTFS zip, with its files at the root or in a single subdirectory
+export async function parseGTFSZip(file: File, options: ParseOptions = {}): Promise<GTFSData> {
+  // Read the archive once: JSZip keeps using this buffer, so hashing it costs no extra copy
+  const buffer = await file.arrayBuffer();
+  const contentHash = await sha256(buffer);
   const zip = new JSZip();
-  const contents = await zip.loadAsync(file);
-  return Object.keys(contents.files).filter((name) => !contents.files[name].dir);
+  const contents = await zip.loadAsync(buffer);
+
+  const files = listZipFiles(contents);
+  options.onFileList?.(files);
+
+  const root = findGTFSRoot(files);
+  const entries = new Map<string, GTFSEntry>();
+  for (const name of files) {
+    if (!name.startsWith(root) || name.slice(root.length).includes('/')) continue;
+    entries.set(name.slice(root.length), zipEntry(contents.file(name) as StreamableZipObject));
+  }
+  assertRequiredFiles(entries);
+
+  const source = {
+    fileName: file.name,
+    fileSize: file.size,
+    files,
+    contentHash,
+  };
+  return parseGTFSEntries(source, entries, options);
+}
+
+// Parse loose GTFS .txt files, e.g. the content of a dropped folder
+export async function parseGTFSFiles(
+  files: File[],
+  name: string, // Shown as the feed file name, usually the folder name
+  options: ParseOptions = {}
+): Promise<GTFSData> {
+  const sorted = [...files].sort((a, b) => a.name.localeCompare(b.name));
+  const fileNames = sorted.map((file) => file.name);
+  options.onFileList?.(fileNames);
+
+  // Files of several feeds, e.g. a folder holding two unzipped feeds, cannot be told apart
+  const duplicates = [...new Set(fileNames.filter((name, i) => fileNames[i - 1] === name))];
+  if (duplicates.length > 0) {
+    throw new Error(
+      `GTFS files contain several ${duplicates.join(', ')}, keep only the files of one feed`
+    );
+  }
+
+  const entries = new Map(sorted.map((file) => [file.name, blobEntry(file)]));
+  assertRequiredFiles(entries);
+
+  // Hash one file at a time, then the list of names and hashes, so memory stays bounded by
+  // the largest file. Names are part of the hash, so renaming a file gives a different feed.
+  const fileHashes: string[] = [];
+  for (const file of sorted) {
+    fileHashes.push(`${file.name}\0${await sha256(await file.arrayBuffer())}\n`);
+  }
+  const source = {
+    fileName: name,
+    fileSize: sorted.reduce((sum, file) => sum + file.size, 0),
+    files: fileNames,
+    contentHash: await sha256(new TextEncoder().encode(fileHashes.join(''))),
+  };
+  return parseGTFSEntries(source, entries, options);
+}
+
+// Parse any supported GTFS input
+export function parseGTFS(input: GTFSInput, options: ParseOptions = {}): Promise<GTFSData> {
+  return input.kind === 'zip'
+    ? parseGTFSZip(input.file, options)
+    : parseGTFSFiles(input.files, input.name, options);
 }
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { parseGTFSTimeInput } from './gtfsTime';
+
+describe('parseGTFSTimeInput', () => {
+  it('accepts HH:MM and HH:MM:SS past midnight', () => {
+    expect(parseGTFSTimeInput('06:30')).toBe(6 * 3600 + 30 * 60);
+    expect(parseGTFSTimeInput('24:00')).toBe(24 * 3600);
+    expect(parseGTFSTimeInput('25:10', 59)).toBe(25 * 3600 + 10 * 60 + 59);
+    expect(parseGTFSTimeInput(' 26:05:07 ', 59)).toBe(26 * 3600 + 5 * 60 + 7);
+  });
+
+  it('rejects malformed times', () => {
+    expect(parseGTFSTimeInput('')).toBeNull();
+    expect(parseGTFSTimeInput('6h30')).toBeNull();
+    expect(parseGTFSTimeInput('06:60')).toBeNull();
+  });
+});
@@ -0,0 +1,34 @@
+// Parse a GTFS time (H:MM:SS, hours may exceed 23 for trips past midnight)
+// into seconds after the start of the service day
+export function parseGTFSTime(time: string): number | null {
+  const match = /^(\d{1,3}):([0-5]\d):([0-5]\d)$/.exec(time.trim());
+  if (!match) return null;
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+}
+
+// Parse a time typed by the user as HH:MM or HH:MM:SS, hours may exceed 23 as in the feed.
+// Seconds default to the given value when left out.
+export function parseGTFSTimeInput(value: string, defaultSeconds = 0): number | null {
+  const trimmed = value.trim();
+  if (/^\d{1,3}:[0-5]\d$/.test(trimmed)) {
+    return parseGTFSTime(`${trimmed}:${String(defaultSeconds).padStart(2, '0')}`);
+  }
+  return parseGTFSTime(trimmed);
+}
+
+// Format seconds as HH:MM:SS, keeping hours >= 24 as GTFS does
+export function formatGTFSTime(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  return [hours, minutes, secs].map((n) => String(n).padStart(2, '0')).join(':');
+}
+
+// Format a duration in seconds as e.g. "1h 05m" or "45m"
+export function formatDuration(seconds: number): string {
+  const totalMinutes = Math.round(seconds / 60);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  if (hours === 0) return `${minutes}m`;
+  return `${hours}h ${String(minutes).padStart(2, '0')}m`;
+}
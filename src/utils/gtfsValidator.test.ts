@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { buildServiceIndex } from './calendarService';
+import { applySeverities, runValidationRules } from './gtfsValidator';
+import { edgeCaseFeed } from '../test/calendarFixtures';
+
+describe('applySeverities', () => {
+  const run = runValidationRules(buildServiceIndex(edgeCaseFeed));
+
+  it('groups the notices of every rule with its default severity', () => {
+    const result = applySeverities(run);
+    const invalidDate = result.issues.filter((issue) => issue.code === 'invalid_date');
+
+    expect(invalidDate.length).toBeGreaterThan(0);
+    expect(invalidDate.every((issue) => issue.severity === 'error')).toBe(true);
+    expect(result.isValid).toBe(false);
+    expect(result.disabledRules).toEqual([]);
+  });
+
+  it('overrides and turns off rules without running them again', () => {
+    const result = applySeverities(run, { invalid_date: 'warning', unexpected_enum_value: 'off' });
+
+    const invalidDate = result.issues.filter((issue) => issue.code === 'invalid_date');
+
+    expect(invalidDate.length).toBeGreaterThan(0);
+    expect(invalidDate.every((issue) => issue.severity === 'warning')).toBe(true);
+    expect(result.issues.some((issue) => issue.code === 'unexpected_enum_value')).toBe(false);
+    expect(result.disabledRules).toEqual(['unexpected_enum_value']);
+    expect(result.validatedAt).toBe(run.validatedAt);
+  });
+});
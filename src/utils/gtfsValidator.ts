@@ -1,97 +1,169 @@
-import type { GTFSData } from '../types/gtfs';
+import type { DateCoverage, GTFSData, ServiceIndex } from '../types/gtfs';
+import {
+  getDateCoverage,
+  getDateRange,
+  getFeedToday,
+} from './calendarService';
+import { validationRules } from './validationRules';
 
+export type ValidationSeverity = 'error' | 'warning' | 'info';
+
+// Severity chosen by the user for a rule code, 'off' skips the rule entirely
+export type SeverityOverride = ValidationSeverity | 'off';
+export type SeverityOverrides = Record<string, SeverityOverride>;
+
+// One offending row (or date, for feed-wide checks) found by a rule
+export interface ValidationNotice {
+  file: string;
+  field: string;
+  line?: number; // Line of the row in the source file, when the notice is about a row
+  message: string;
+}
+
+// Everything a rule may look at
+export interface ValidationContext {
+  gtfsData: GTFSData;
+  serviceIndex: ServiceIndex;
+  coverage: DateCoverage[]; // Every date of the feed range
+  today: string; // YYYYMMDD in the agency timezone
+}
+
+export interface ValidationRule {
+  code: string; // Stable identifier, following the MobilityData validator naming where one exists
+  severity: ValidationSeverity; // Default severity
+  description: string;
+  detailsLabel: string; // Heading for the list of notices
+  summary: (count: number, field: string) => string;
+  check: (context: ValidationContext) => ValidationNotice[];
+}
+
+// Notices of one rule grouped by file and field
 export interface ValidationIssue {
-  type: 'error' | 'warning';
+  code: string;
+  severity: ValidationSeverity;
   file: string;
   field: string;
   message: string;
-  duplicates: string[];
+  notices: ValidationNotice[];
+  detailsLabel: string;
 }
 
 export interface ValidationResult {
-  isValid: boolean;
+  isValid: boolean; // No issue with error severity
   issues: ValidationIssue[];
+  disabledRules: string[];
+  severities: SeverityOverrides; // User overrides the validation ran with
+  validatedAt: string; // ISO timestamp
+  today: string; // YYYYMMDD used for expiry checks
+  dateRange: { start: string; end: string } | null; // YYYYMMDD
   stats: {
     tripsChecked: number;
     calendarsChecked: number;
     calendarDatesChecked: number;
+    routesChecked: number;
   };
 }
 
-// Validate GTFS data for duplicates according to GTFS spec
-export function validateGTFSData(gtfsData: GTFSData): ValidationResult {
-  const issues: ValidationIssue[] = [];
+export interface ValidationOptions {
+  rules?: ValidationRule[];
+  coverage?: DateCoverage[]; // getDateCoverage of the index, when the caller already has it
+}
 
-  // Check trips.txt - trip_id must be unique
-  const tripIds = gtfsData.trips.map((t) => t.trip_id);
-  const duplicateTripIds = findDuplicates(tripIds);
-  if (duplicateTripIds.length > 0) {
-    issues.push({
-      type: 'error',
-      file: 'trips.txt',
-      field: 'trip_id',
-      message: `Found ${duplicateTripIds.length} duplicate trip_id value(s)`,
-      duplicates: duplicateTripIds,
-    });
-  }
+// Notices of every rule before user severities are applied, computed once per feed
+export interface ValidationRun {
+  ruleNotices: { rule: ValidationRule; notices: ValidationNotice[] }[];
+  validatedAt: string; // ISO timestamp
+  today: string; // YYYYMMDD used for expiry checks
+  dateRange: { start: string; end: string } | null; // YYYYMMDD
+  stats: ValidationResult['stats'];
+}
 
-  // Check calendar.txt - service_id must be unique
-  const calendarServiceIds = gtfsData.calendars.map((c) => c.service_id);
-  const duplicateCalendarServiceIds = findDuplicates(calendarServiceIds);
-  if (duplicateCalendarServiceIds.length > 0) {
-    issues.push({
-      type: 'error',
-      file: 'calendar.txt',
-      field: 'service_id',
-      message: `Found ${duplicateCalendarServiceIds.length} duplicate service_id value(s)`,
-      duplicates: duplicateCalendarServiceIds,
-    });
-  }
+// Severity a rule runs with once user overrides are applied
+export function getEffectiveSeverity(
+  rule: ValidationRule,
+  severities: SeverityOverrides = {}
+): SeverityOverride {
+  return severities[rule.code] ?? rule.severity;
+}
 
-  // Check calendar_dates.txt - combination of service_id + date must be unique
-  const calendarDateKeys = gtfsData.calendarDates.map(
-    (cd) => `${cd.service_id}|${cd.date}`
-  );
-  const duplicateCalendarDateKeys = findDuplicates(calendarDateKeys);
-  if (duplicateCalendarDateKeys.length > 0) {
-    issues.push({
-      type: 'error',
-      file: 'calendar_dates.txt',
-      field: 'service_id + date',
-      message: `Found ${duplicateCalendarDateKeys.length} duplicate service_id + date combination(s)`,
-      duplicates: duplicateCalendarDateKeys.map((key) => {
-        const [serviceId, date] = key.split('|');
-        return `service_id="${serviceId}", date="${date}"`;
-      }),
-    });
-  }
+// Notice as a single line of text, prefixed by its line when known
+export function formatNotice(notice: ValidationNotice): string {
+  return notice.line !== undefined ? `line ${notice.line}: ${notice.message}` : notice.message;
+}
+
+// Run every rule against the feed of an index, whatever its severity
+export function runValidationRules(
+  serviceIndex: ServiceIndex,
+  { rules = validationRules, coverage }: ValidationOptions = {}
+): ValidationRun {
+  const gtfsData = serviceIndex.data;
+  const context: ValidationContext = {
+    gtfsData,
+    serviceIndex,
+    coverage: coverage ?? getDateCoverage(serviceIndex),
+    today: getFeedToday(serviceIndex),
+  };
 
   return {
-    isValid: issues.length === 0,
-    issues,
+    ruleNotices: rules.map((rule) => ({ rule, notices: rule.check(context) })),
+    validatedAt: new Date().toISOString(),
+    today: context.today,
+    dateRange: getDateRange(serviceIndex),
     stats: {
       tripsChecked: gtfsData.trips.length,
       calendarsChecked: gtfsData.calendars.length,
       calendarDatesChecked: gtfsData.calendarDates.length,
+      routesChecked: gtfsData.routes.length,
     },
   };
 }
 
-// Find duplicate values in an array
-function findDuplicates(arr: string[]): string[] {
-  const seen = new Map<string, number>();
-  const duplicates: string[] = [];
+// Apply user severities to the notices of a run, dropping rules that are off, and group
+// the notices into issues. Cheap enough to redo on every severity change.
+export function applySeverities(
+  run: ValidationRun,
+  severities: SeverityOverrides = {}
+): ValidationResult {
+  const issues: ValidationIssue[] = [];
+  const disabledRules: string[] = [];
 
-  for (const item of arr) {
-    const count = seen.get(item) || 0;
-    seen.set(item, count + 1);
-  }
+  for (const { rule, notices: ruleNotices } of run.ruleNotices) {
+    const severity = getEffectiveSeverity(rule, severities);
+    if (severity === 'off') {
+      disabledRules.push(rule.code);
+      continue;
+    }
+
+    const groups = new Map<string, ValidationNotice[]>();
+    for (const notice of ruleNotices) {
+      const key = `${notice.file}|${notice.field}`;
+      const group = groups.get(key) || [];
+      group.push(notice);
+      groups.set(key, group);
+    }
 
-  for (const [item, count] of seen) {
-    if (count > 1) {
-      duplicates.push(item);
+    for (const notices of groups.values()) {
+      const { file, field } = notices[0];
+      issues.push({
+        code: rule.code,
+        severity,
+        file,
+        field,
+        message: rule.summary(notices.length, field),
+        notices,
+        detailsLabel: rule.detailsLabel,
+      });
     }
   }
 
-  return duplicates;
+  return {
+    isValid: !issues.some((issue) => issue.severity === 'error'),
+    issues,
+    disabledRules,
+    severities,
+    validatedAt: run.validatedAt,
+    today: run.today,
+    dateRange: run.dateRange,
+    stats: run.stats,
+  };
 }
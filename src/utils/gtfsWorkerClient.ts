@@ -0,0 +1,92 @@
+import type { GTFSData } from '../types/gtfs';
+import type { GTFSInput, ParseOptions, ParseProgress } from './gtfsParser';
+
+export interface GTFSWorkerRequest {
+  input: GTFSInput;
+  library?: { keepZip: boolean }; // Save the parsed feed to the feed library
+}
+
+export type GTFSWorkerResponse =
+  | { type: 'files'; files: string[] }
+  | { type: 'progress'; progress: ParseProgress }
+  | { type: 'done'; data: GTFSData }
+  | { type: 'saved' }
+  | { type: 'saveError'; feedHash: string; message: string }
+  | { type: 'error'; message: string };
+
+// Parse a GTFS zip or loose files in a dedicated worker so the page stays responsive.
+// Aborting the signal terminates the worker and rejects with an AbortError.
+// With library set, the worker stays alive after resolving until the feed is saved,
+// a failed save is reported to onSaveError.
+export function parseGTFSInWorker(
+  input: GTFSInput,
+  options: ParseOptions & {
+    signal?: AbortSignal;
+    library?: GTFSWorkerRequest['library'];
+    onSaveError?: (feedHash: string, message: string) => void;
+  } = {}
+): Promise<GTFSData> {
+  const { signal, onFileList, onProgress, library, onSaveError } = options;
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Parsing cancelled', 'AbortError'));
+      return;
+    }
+
+    const worker = new Worker(new URL('../workers/gtfsParser.worker.ts', import.meta.url), {
+      type: 'module',
+    });
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    const handleAbort = () => {
+      finish();
+      reject(new DOMException('Parsing cancelled', 'AbortError'));
+    };
+    signal?.addEventListener('abort', handleAbort);
+
+    worker.onmessage = (event: MessageEvent<GTFSWorkerResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'files':
+          onFileList?.(message.files);
+          break;
+        case 'progress':
+          onProgress?.(message.progress);
+          break;
+        case 'done':
+          if (library) {
+            // Too late to cancel, let the worker save the feed
+            signal?.removeEventListener('abort', handleAbort);
+          } else {
+            finish();
+          }
+          resolve(message.data);
+          break;
+        case 'saved':
+          finish();
+          break;
+        case 'saveError':
+          finish();
+          onSaveError?.(message.feedHash, message.message);
+          break;
+        case 'error':
+          finish();
+          reject(new Error(message.message));
+          break;
+      }
+    };
+
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'GTFS parser worker failed'));
+    };
+
+    const request: GTFSWorkerRequest = { input, library };
+    worker.postMessage(request);
+  });
+}
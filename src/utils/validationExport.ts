@@ -0,0 +1,132 @@
+import type { GTFSData } from '../types/gtfs';
+import type { ValidationResult } from './gtfsValidator';
+import { formatNotice } from './gtfsValidator';
+import { escapeHTML, formatCSV } from './fileExport';
+
+// Everything written to an exported validation report
+export interface ValidationReportExport extends ValidationResult {
+  feed: GTFSData['source'] & {
+    agencies: { agency_id?: string; agency_name: string; agency_timezone: string }[];
+  };
+}
+
+// Attach feed metadata to a validation result
+export function buildValidationExport(
+  result: ValidationResult,
+  gtfsData: GTFSData
+): ValidationReportExport {
+  return {
+    ...result,
+    feed: {
+      ...gtfsData.source,
+      agencies: gtfsData.agencies.map(({ agency_id, agency_name, agency_timezone }) => ({
+        agency_id,
+        agency_name,
+        agency_timezone,
+      })),
+    },
+  };
+}
+
+export function formatValidationJSON(report: ValidationReportExport): string {
+  return JSON.stringify(report, null, 2);
+}
+
+// One row per notice, with the issue it belongs to repeated on each row
+export function formatValidationCSV(report: ValidationReportExport): string {
+  const rows = report.issues.flatMap((issue) =>
+    issue.notices.map((notice) => [
+      issue.severity,
+      issue.code,
+      notice.file,
+      notice.field,
+      notice.line,
+      notice.message,
+      issue.message,
+    ])
+  );
+  return formatCSV(['severity', 'code', 'file', 'field', 'line', 'message', 'issue'], rows);
+}
+
+// YYYYMMDD as YYYY-MM-DD
+function formatDate(dateString: string): string {
+  return `${dateString.slice(0, 4)}-${dateString.slice(4, 6)}-${dateString.slice(6, 8)}`;
+}
+
+const reportStyles = `
+  body { font-family: system-ui, sans-serif; color: #213547; margin: 2rem auto; max-width: 960px; padding: 0 1rem; }
+  h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+  .meta { color: #64748b; font-size: 0.875rem; }
+  .meta dt { font-weight: 600; float: left; clear: left; width: 9rem; }
+  .meta dd { margin: 0 0 0.25rem 9rem; }
+  .status { padding: 0.75rem 1rem; border-radius: 8px; font-weight: 600; margin: 1rem 0; }
+  .status.valid { background: #dcfce7; color: #16a34a; }
+  .status.invalid { background: #fee2e2; color: #dc2626; }
+  details { border: 1px solid #e2e8f0; border-radius: 6px; margin-bottom: 0.5rem; }
+  summary { padding: 0.5rem 0.75rem; cursor: pointer; font-size: 0.875rem; }
+  .severity { display: inline-block; min-width: 4.5rem; font-weight: 600; text-transform: uppercase; font-size: 0.75rem; }
+  .error .severity { color: #dc2626; }
+  .warning .severity { color: #ea580c; }
+  .info .severity { color: #2563eb; }
+  code { font-size: 0.75rem; color: #64748b; }
+  ul { margin: 0; padding: 0.5rem 0.75rem 0.75rem 2rem; font-family: monospace; font-size: 0.75rem; }
+`;
+
+// Self-contained HTML page listing every issue and notice
+export function formatValidationHTML(report: ValidationReportExport): string {
+  const { feed, stats } = report;
+  const errorCount = report.issues.filter((issue) => issue.severity === 'error').length;
+  const metadata: [string, string][] = [
+    ['File', `${feed.fileName} (${feed.fileSize.toLocaleString()} bytes)`],
+    ['Agencies', feed.agencies.map((a) => a.agency_name).join(', ') || 'None'],
+    [
+      'Date range',
+      report.dateRange
+        ? `${formatDate(report.dateRange.start)} to ${formatDate(report.dateRange.end)}`
+        : 'None',
+    ],
+    [
+      'Checked',
+      `${stats.tripsChecked} trips, ${stats.calendarsChecked} calendars, ${stats.calendarDatesChecked} calendar dates, ${stats.routesChecked} routes`,
+    ],
+    ['Validated at', report.validatedAt],
+    ['Disabled rules', report.disabledRules.join(', ') || 'None'],
+  ];
+
+  const issues = report.issues
+    .map(
+      (issue) => `
+    <details class="${issue.severity}">
+      <summary>
+        <span class="severity">${issue.severity}</span>
+        <code>${escapeHTML(issue.code)}</code>
+        <strong>${escapeHTML(issue.file)}</strong> [${escapeHTML(issue.field)}]
+        ${escapeHTML(issue.message)}
+      </summary>
+      <ul>
+        ${issue.notices.map((notice) => `<li>${escapeHTML(formatNotice(notice))}</li>`).join('\n        ')}
+      </ul>
+    </details>`
+    )
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>GTFS validation report - ${escapeHTML(feed.fileName)}</title>
+  <style>${reportStyles}</style>
+</head>
+<body>
+  <h1>GTFS validation report</h1>
+  <dl class="meta">
+    ${metadata.map(([label, value]) => `<dt>${label}</dt><dd>${escapeHTML(value)}</dd>`).join('\n    ')}
+  </dl>
+  <div class="status ${report.isValid ? 'valid' : 'invalid'}">
+    ${report.isValid ? 'Valid' : 'Invalid'}: ${report.issues.length} issue(s), ${errorCount} with error severity
+  </div>
+  ${issues}
+</body>
+</html>
+`;
+}
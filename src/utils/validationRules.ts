@@ -0,0 +1,645 @@
+import { format } from 'date-fns';
+import type {
+  CSVParseWarning,
+  GTFSCalendar,
+  GTFSData,
+  GTFSRoute,
+  GTFSTrip,
+  SourceInfo,
+} from '../types/gtfs';
+import type { ValidationNotice, ValidationRule } from './gtfsValidator';
+import {
+  addDaysToGTFSDate,
+  diffGTFSDates,
+  getGTFSDayOfWeek,
+  isValidGTFSDate,
+  parseGTFSDate,
+} from './calendarService';
+
+// A date is an abrupt drop when it has at most this share of the trips of the
+// same weekday in the adjacent weeks
+const TRIP_DROP_RATIO = 0.2;
+
+// Warn when the last day with service is this close to today
+const EXPIRY_WARNING_DAYS = 7;
+
+const SERVICE_FILES = 'calendar.txt / calendar_dates.txt';
+
+// Day of week keys indexed by getGTFSDayOfWeek (0=Sunday)
+const dayOfWeekKeys = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+] as const;
+
+// Describe the values of a row for a notice
+function describeValues(fields: Record<string, string | number>): string {
+  return Object.entries(fields)
+    .map(([field, value]) => `${field}="${value}"`)
+    .join(', ');
+}
+
+// Format a YYYYMMDD date with its weekday for notices
+function describeDate(dateString: string): string {
+  return format(parseGTFSDate(dateString), 'EEE yyyy-MM-dd');
+}
+
+// Notice about one row of a file
+function rowNotice(
+  record: SourceInfo,
+  file: string,
+  field: string,
+  fields: Record<string, string | number>
+): ValidationNotice {
+  return { file, field, line: record.sourceLine, message: describeValues(fields) };
+}
+
+// One notice per row repeating the key of an earlier row
+function findDuplicateKeys<T extends SourceInfo>(
+  records: T[],
+  file: string,
+  field: string,
+  getKey: (record: T) => Record<string, string>
+): ValidationNotice[] {
+  const firstLines = new Map<string, number | undefined>();
+  const notices: ValidationNotice[] = [];
+
+  for (const record of records) {
+    const values = getKey(record);
+    const key = Object.values(values).join('|');
+    if (firstLines.has(key)) {
+      const firstLine = firstLines.get(key);
+      notices.push({
+        file,
+        field,
+        line: record.sourceLine,
+        message:
+          firstLine !== undefined
+            ? `${describeValues(values)} already defined on line ${firstLine}`
+            : `${describeValues(values)} already defined`,
+      });
+    } else {
+      firstLines.set(key, record.sourceLine);
+    }
+  }
+  return notices;
+}
+
+// One notice per listed field whose text could not be parsed
+function invalidFieldNotices<T extends SourceInfo>(
+  records: T[],
+  file: string,
+  fields: string[],
+  identify: (record: T) => Record<string, string>,
+  isReported: (value: string) => boolean = () => true
+): ValidationNotice[] {
+  const notices: ValidationNotice[] = [];
+  for (const record of records) {
+    if (!record.invalidFields) continue;
+    for (const field of fields) {
+      const value = record.invalidFields[field];
+      if (value !== undefined && isReported(value)) {
+        notices.push(rowNotice(record, file, field, { ...identify(record), [field]: value }));
+      }
+    }
+  }
+  return notices;
+}
+
+// One notice per listed field left empty
+function emptyFieldNotices<T extends SourceInfo>(
+  records: T[],
+  file: string,
+  fields: (keyof T & string)[],
+  identify: (record: T) => Record<string, string>
+): ValidationNotice[] {
+  const notices: ValidationNotice[] = [];
+  for (const record of records) {
+    for (const field of fields) {
+      if (record[field] === '' || record[field] === undefined) {
+        notices.push(rowNotice(record, file, field, identify(record)));
+      }
+    }
+  }
+  return notices;
+}
+
+const identifyTrip = (trip: GTFSTrip) => ({ trip_id: trip.trip_id });
+const identifyRoute = (route: GTFSRoute) => ({ route_id: route.route_id });
+
+// Notices pointing at the row defining a service, in calendar.txt first
+function createServiceNotices(gtfsData: GTFSData) {
+  const definitions = new Map<string, { file: string; line?: number }>();
+  for (const calendar of gtfsData.calendars) {
+    if (!definitions.has(calendar.service_id)) {
+      definitions.set(calendar.service_id, { file: 'calendar.txt', line: calendar.sourceLine });
+    }
+  }
+  for (const exception of gtfsData.calendarDates) {
+    if (!definitions.has(exception.service_id)) {
+      definitions.set(exception.service_id, { file: 'calendar_dates.txt', line: exception.sourceLine });
+    }
+  }
+
+  return (serviceId: string, message: string): ValidationNotice => {
+    const definition = definitions.get(serviceId) ?? { file: SERVICE_FILES };
+    return { ...definition, field: 'service_id', message: `service_id="${serviceId}" ${message}` };
+  };
+}
+
+// Whether a calendar.txt entry runs on a date by its regular rules, treating a
+// reversed range as swapped like the calendar service does
+function isBaseActive(calendar: GTFSCalendar, dateString: string): boolean {
+  if (!isValidGTFSDate(calendar.start_date) || !isValidGTFSDate(calendar.end_date)) return false;
+  const [start, end] = [calendar.start_date, calendar.end_date].sort();
+  if (dateString < start || dateString > end) return false;
+  return calendar[dayOfWeekKeys[getGTFSDayOfWeek(dateString)]];
+}
+
+// Whether a service runs on a date by the calendar.txt rules alone
+function createRuleActivity(gtfsData: GTFSData) {
+  const calendarsByService = new Map<string, GTFSCalendar[]>();
+  for (const calendar of gtfsData.calendars) {
+    const existing = calendarsByService.get(calendar.service_id) || [];
+    existing.push(calendar);
+    calendarsByService.set(calendar.service_id, existing);
+  }
+  return (serviceId: string, dateString: string) =>
+    (calendarsByService.get(serviceId) || []).some((c) => isBaseActive(c, dateString));
+}
+
+// Exceptions with a usable date and exception_type
+function getValidExceptions(gtfsData: GTFSData) {
+  return gtfsData.calendarDates.filter((cd) => isValidGTFSDate(cd.date) && !cd.invalidFields);
+}
+
+// Service IDs defined in calendar.txt or calendar_dates.txt
+function getDefinedServiceIds(gtfsData: GTFSData): Set<string> {
+  return new Set([
+    ...gtfsData.calendars.map((c) => c.service_id),
+    ...gtfsData.calendarDates.map((cd) => cd.service_id),
+  ]);
+}
+
+// Rule reporting the CSV structure warnings collected while parsing
+function parseWarningRule(
+  rule: Omit<ValidationRule, 'check' | 'detailsLabel'>,
+  problems: CSVParseWarning['problem'][]
+): ValidationRule {
+  return {
+    ...rule,
+    detailsLabel: 'Affected lines',
+    check: ({ gtfsData }) =>
+      gtfsData.parseWarnings
+        .filter((warning) => problems.includes(warning.problem))
+        .map((warning) => ({
+          file: warning.file,
+          field: 'CSV structure',
+          line: warning.line,
+          message: warning.message,
+        })),
+  };
+}
+
+// Every rule run by the validator, in report order
+export const validationRules: ValidationRule[] = [
+  {
+    code: 'duplicate_key',
+    severity: 'error',
+    description:
+      'trip_id in trips.txt, service_id in calendar.txt and service_id + date in calendar_dates.txt must be unique',
+    detailsLabel: 'Duplicate rows',
+    summary: (count, field) => `Found ${count} row(s) repeating an existing ${field}`,
+    check: ({ gtfsData }) => [
+      ...findDuplicateKeys(gtfsData.trips, 'trips.txt', 'trip_id', (t) => ({
+        trip_id: t.trip_id,
+      })),
+      ...findDuplicateKeys(gtfsData.calendars, 'calendar.txt', 'service_id', (c) => ({
+        service_id: c.service_id,
+      })),
+      ...findDuplicateKeys(gtfsData.calendarDates, 'calendar_dates.txt', 'service_id + date', (cd) => ({
+        service_id: cd.service_id,
+        date: cd.date,
+      })),
+    ],
+  },
+  {
+    code: 'foreign_key_violation',
+    severity: 'error',
+    description:
+      'route_id in trips.txt must exist in routes.txt, service_id in calendar.txt or calendar_dates.txt',
+    detailsLabel: 'Offending trips',
+    summary: (count, field) => `Found ${count} trip(s) referencing an undefined ${field}`,
+    check: ({ gtfsData }) => {
+      const routeIds = new Set(gtfsData.routes.map((r) => r.route_id));
+      const serviceIds = getDefinedServiceIds(gtfsData);
+      return [
+        ...gtfsData.trips
+          .filter((t) => t.route_id !== '' && !routeIds.has(t.route_id))
+          .map((t) =>
+            rowNotice(t, 'trips.txt', 'route_id', { trip_id: t.trip_id, route_id: t.route_id })
+          ),
+        ...gtfsData.trips
+          .filter((t) => t.service_id !== '' && !serviceIds.has(t.service_id))
+          .map((t) =>
+            rowNotice(t, 'trips.txt', 'service_id', { trip_id: t.trip_id, service_id: t.service_id })
+          ),
+      ];
+    },
+  },
+  {
+    code: 'unused_service',
+    severity: 'warning',
+    description: 'Every service_id should be used by at least one trip',
+    detailsLabel: 'Unused services',
+    summary: (count) => `Found ${count} service_id value(s) not used by any trip`,
+    check: ({ gtfsData }) => {
+      const usedServiceIds = new Set(gtfsData.trips.map((t) => t.service_id));
+      const serviceNotice = createServiceNotices(gtfsData);
+      return [...getDefinedServiceIds(gtfsData)]
+        .filter((id) => !usedServiceIds.has(id))
+        .map((id) => serviceNotice(id, 'is not used by any trip'));
+    },
+  },
+  {
+    code: 'route_without_trips',
+    severity: 'warning',
+    description: 'Every route should have at least one trip',
+    detailsLabel: 'Routes without trips',
+    summary: (count) => `Found ${count} route(s) without any trip`,
+    check: ({ gtfsData }) => {
+      const usedRouteIds = new Set(gtfsData.trips.map((t) => t.route_id));
+      return gtfsData.routes
+        .filter((r) => !usedRouteIds.has(r.route_id))
+        .map((r) => rowNotice(r, 'routes.txt', 'route_id', { route_id: r.route_id }));
+    },
+  },
+  {
+    code: 'invalid_date',
+    severity: 'error',
+    description: 'Dates in calendar.txt and calendar_dates.txt must be valid YYYYMMDD dates',
+    detailsLabel: 'Offending rows',
+    summary: (count, field) => `Found ${count} row(s) with a malformed ${field}`,
+    check: ({ gtfsData }) => [
+      ...gtfsData.calendars
+        .filter((c) => !isValidGTFSDate(c.start_date) || !isValidGTFSDate(c.end_date))
+        .map((c) =>
+          rowNotice(c, 'calendar.txt', 'start_date / end_date', {
+            service_id: c.service_id,
+            start_date: c.start_date,
+            end_date: c.end_date,
+          })
+        ),
+      ...gtfsData.calendarDates
+        .filter((cd) => !isValidGTFSDate(cd.date))
+        .map((cd) =>
+          rowNotice(cd, 'calendar_dates.txt', 'date', { service_id: cd.service_id, date: cd.date })
+        ),
+    ],
+  },
+  {
+    code: 'start_and_end_range_out_of_order',
+    severity: 'error',
+    description: 'start_date must not be after end_date in calendar.txt',
+    detailsLabel: 'Offending rows',
+    summary: (count) => `Found ${count} calendar(s) with start_date after end_date`,
+    check: ({ gtfsData }) =>
+      gtfsData.calendars
+        .filter(
+          (c) =>
+            isValidGTFSDate(c.start_date) &&
+            isValidGTFSDate(c.end_date) &&
+            c.start_date > c.end_date
+        )
+        .map((c) =>
+          rowNotice(c, 'calendar.txt', 'start_date / end_date', {
+            service_id: c.service_id,
+            start_date: c.start_date,
+            end_date: c.end_date,
+          })
+        ),
+  },
+  {
+    code: 'unexpected_enum_value',
+    severity: 'error',
+    description:
+      'Weekday columns of calendar.txt must be 0 or 1 (anything else is read as 0), exception_type of calendar_dates.txt 1 or 2, direction_id 0 or 1, wheelchair_accessible and bikes_allowed 0 to 2, route_type a basic or extended route type',
+    detailsLabel: 'Offending rows',
+    summary: (count, field) => `Found ${count} row(s) with an unexpected ${field} value`,
+    check: ({ gtfsData }) => [
+      ...gtfsData.calendars
+        .filter((c) => c.invalidFields)
+        .map((c) =>
+          rowNotice(c, 'calendar.txt', 'monday … sunday', {
+            service_id: c.service_id,
+            ...c.invalidFields,
+          })
+        ),
+      ...gtfsData.calendarDates
+        .filter((cd) => cd.invalidFields)
+        .map((cd) =>
+          rowNotice(cd, 'calendar_dates.txt', 'exception_type', {
+            service_id: cd.service_id,
+            date: cd.date,
+            exception_type: cd.invalidFields?.exception_type ?? cd.exception_type,
+          })
+        ),
+      ...invalidFieldNotices(
+        gtfsData.trips,
+        'trips.txt',
+        ['direction_id', 'wheelchair_accessible', 'bikes_allowed'],
+        identifyTrip
+      ),
+      // An empty route_type is reported as a missing required field
+      ...invalidFieldNotices(
+        gtfsData.routes,
+        'routes.txt',
+        ['route_type'],
+        identifyRoute,
+        (value) => value !== ''
+      ),
+    ],
+  },
+  {
+    code: 'missing_required_field',
+    severity: 'error',
+    description:
+      'trip_id, route_id and service_id in trips.txt, route_id and route_type in routes.txt, and agency_id in routes.txt when the feed has several agencies must not be empty',
+    detailsLabel: 'Offending rows',
+    summary: (count, field) => `Found ${count} row(s) without the required ${field}`,
+    check: ({ gtfsData }) => [
+      ...emptyFieldNotices(
+        gtfsData.trips,
+        'trips.txt',
+        ['trip_id', 'route_id', 'service_id'],
+        identifyTrip
+      ),
+      ...emptyFieldNotices(
+        gtfsData.routes,
+        'routes.txt',
+        gtfsData.agencies.length > 1 ? ['route_id', 'agency_id'] : ['route_id'],
+        identifyRoute
+      ),
+      ...gtfsData.routes
+        .filter((r) => r.invalidFields?.route_type === '')
+        .map((r) => rowNotice(r, 'routes.txt', 'route_type', identifyRoute(r))),
+    ],
+  },
+  {
+    code: 'route_both_short_and_long_name_missing',
+    severity: 'error',
+    description: 'Every route in routes.txt needs a route_short_name or a route_long_name',
+    detailsLabel: 'Offending rows',
+    summary: (count) => `Found ${count} route(s) with neither a short nor a long name`,
+    check: ({ gtfsData }) =>
+      gtfsData.routes
+        .filter((r) => !r.route_short_name && !r.route_long_name)
+        .map((r) =>
+          rowNotice(r, 'routes.txt', 'route_short_name / route_long_name', identifyRoute(r))
+        ),
+  },
+  {
+    code: 'invalid_color',
+    severity: 'error',
+    description:
+      'route_color and route_text_color must be six hexadecimal digits without #; invalid colors are ignored',
+    detailsLabel: 'Offending rows',
+    summary: (count, field) => `Found ${count} route(s) with an invalid ${field}`,
+    check: ({ gtfsData }) =>
+      invalidFieldNotices(
+        gtfsData.routes,
+        'routes.txt',
+        ['route_color', 'route_text_color'],
+        identifyRoute
+      ),
+  },
+  {
+    code: 'invalid_url',
+    severity: 'error',
+    description: 'route_url must be an absolute http or https URL',
+    detailsLabel: 'Offending rows',
+    summary: (count, field) => `Found ${count} route(s) with an invalid ${field}`,
+    check: ({ gtfsData }) =>
+      invalidFieldNotices(gtfsData.routes, 'routes.txt', ['route_url'], identifyRoute),
+  },
+  {
+    code: 'exception_removes_inactive_day',
+    severity: 'warning',
+    description: 'A calendar_dates.txt removal should target a day the service runs on',
+    detailsLabel: 'No-op exceptions',
+    summary: (count) => `Found ${count} exception(s) removing a service on a day it does not run`,
+    check: ({ gtfsData }) => {
+      const isRunningByRules = createRuleActivity(gtfsData);
+      return getValidExceptions(gtfsData)
+        .filter((cd) => cd.exception_type === 2 && !isRunningByRules(cd.service_id, cd.date))
+        .map((cd) =>
+          rowNotice(cd, 'calendar_dates.txt', 'exception_type', {
+            service_id: cd.service_id,
+            date: cd.date,
+            exception_type: 2,
+          })
+        );
+    },
+  },
+  {
+    code: 'exception_adds_active_day',
+    severity: 'warning',
+    description: 'A calendar_dates.txt addition should target a day the service does not already run on',
+    detailsLabel: 'No-op exceptions',
+    summary: (count) => `Found ${count} exception(s) adding a service on a day it already runs`,
+    check: ({ gtfsData }) => {
+      const isRunningByRules = createRuleActivity(gtfsData);
+      return getValidExceptions(gtfsData)
+        .filter((cd) => cd.exception_type === 1 && isRunningByRules(cd.service_id, cd.date))
+        .map((cd) =>
+          rowNotice(cd, 'calendar_dates.txt', 'exception_type', {
+            service_id: cd.service_id,
+            date: cd.date,
+            exception_type: 1,
+          })
+        );
+    },
+  },
+  {
+    code: 'service_never_active',
+    severity: 'warning',
+    description: 'Every service should run on at least one day once exceptions are applied',
+    detailsLabel: 'Services never running',
+    summary: (count) => `Found ${count} service(s) with no active day`,
+    check: ({ gtfsData, serviceIndex }) => {
+      const serviceNotice = createServiceNotices(gtfsData);
+      return [...serviceIndex.serviceIds]
+        .filter((id) => !serviceIndex.activeDatesByService.has(id))
+        .map((id) => serviceNotice(id, 'never runs'));
+    },
+  },
+  {
+    code: 'service_gap',
+    severity: 'warning',
+    description: 'Every day between the first and last day with service should have trips',
+    detailsLabel: 'Days without service',
+    summary: (count) => `Found ${count} day(s) without any trip inside the feed validity window`,
+    check: ({ coverage }) => {
+      const servedDates = coverage.filter((c) => c.tripCount > 0);
+      if (servedDates.length === 0) return [];
+
+      const firstServed = servedDates[0].dateString;
+      const lastServed = servedDates[servedDates.length - 1].dateString;
+      return coverage
+        .filter(
+          (c) => c.tripCount === 0 && c.dateString > firstServed && c.dateString < lastServed
+        )
+        .map((c) => ({
+          file: SERVICE_FILES,
+          field: 'service coverage',
+          message: `${describeDate(c.dateString)}: ${c.serviceCount} active service(s), 0 trips`,
+        }));
+    },
+  },
+  {
+    code: 'trip_count_drop',
+    severity: 'warning',
+    description: `Days with at least ${Math.round((1 - TRIP_DROP_RATIO) * 100)}% fewer trips than the same weekday in adjacent weeks`,
+    detailsLabel: 'Abrupt drops',
+    summary: (count) =>
+      `Found ${count} day(s) with at least ${Math.round((1 - TRIP_DROP_RATIO) * 100)}% fewer trips than the same weekday in adjacent weeks`,
+    check: ({ coverage }) => {
+      const tripCountByDate = new Map(coverage.map((c) => [c.dateString, c.tripCount]));
+      const notices: ValidationNotice[] = [];
+
+      // Compare with the same weekday one week before and after
+      for (const { dateString, tripCount } of coverage) {
+        if (tripCount === 0) continue;
+        const neighbours = [-7, 7]
+          .map((offset) => tripCountByDate.get(addDaysToGTFSDate(dateString, offset)))
+          .filter((count): count is number => count !== undefined);
+        if (neighbours.length === 0) continue;
+
+        const reference = neighbours.reduce((sum, count) => sum + count, 0) / neighbours.length;
+        if (reference > 0 && tripCount <= reference * TRIP_DROP_RATIO) {
+          const percent = Math.round((1 - tripCount / reference) * 100);
+          notices.push({
+            file: SERVICE_FILES,
+            field: 'service coverage',
+            message: `${describeDate(dateString)}: ${tripCount} trips vs ${Math.round(reference)} on the same weekday in adjacent weeks (-${percent}%)`,
+          });
+        }
+      }
+      return notices;
+    },
+  },
+  {
+    code: 'service_ends_before_feed_end',
+    severity: 'warning',
+    description: 'The last day with service should be the last day of the feed range',
+    detailsLabel: 'Expiry',
+    summary: () => 'Service ends before the end of the feed range',
+    check: ({ coverage }) => {
+      const servedDates = coverage.filter((c) => c.tripCount > 0);
+      if (servedDates.length === 0) return [];
+
+      const lastServed = servedDates[servedDates.length - 1].dateString;
+      const rangeEnd = coverage[coverage.length - 1].dateString;
+      if (lastServed >= rangeEnd) return [];
+      return [
+        {
+          file: SERVICE_FILES,
+          field: 'service coverage',
+          message: `Last day with service is ${describeDate(lastServed)}, but the feed range ends ${describeDate(rangeEnd)}`,
+        },
+      ];
+    },
+  },
+  {
+    // Not MobilityData's feed_expiration_date7_days, which checks feed_info.txt feed_end_date
+    code: 'service_expires_soon',
+    severity: 'warning',
+    description: `The last day with service should be more than ${EXPIRY_WARNING_DAYS} days after today`,
+    detailsLabel: 'Expiry',
+    summary: () => `Service ends within ${EXPIRY_WARNING_DAYS} days or has already ended`,
+    check: ({ coverage, today }) => {
+      const servedDates = coverage.filter((c) => c.tripCount > 0);
+      if (servedDates.length === 0) return [];
+
+      const lastServed = servedDates[servedDates.length - 1].dateString;
+      const daysLeft = diffGTFSDates(today, lastServed);
+      if (daysLeft > EXPIRY_WARNING_DAYS) return [];
+      return [
+        {
+          file: SERVICE_FILES,
+          field: 'service coverage',
+          message:
+            daysLeft < 0
+              ? `Service ended ${-daysLeft} day(s) ago on ${describeDate(lastServed)} (today is ${describeDate(today)})`
+              : `Service ends in ${daysLeft} day(s) on ${describeDate(lastServed)} (today is ${describeDate(today)})`,
+        },
+      ];
+    },
+  },
+  {
+    code: 'no_trip_in_feed_range',
+    severity: 'warning',
+    description: 'At least one trip should run on some day of the feed range',
+    detailsLabel: 'Feed range',
+    summary: () => 'No trip runs on any day of the feed range',
+    check: ({ coverage }) => {
+      if (coverage.length === 0 || coverage.some((c) => c.tripCount > 0)) return [];
+      return [
+        {
+          file: SERVICE_FILES,
+          field: 'service coverage',
+          message: `${describeDate(coverage[0].dateString)} to ${describeDate(coverage[coverage.length - 1].dateString)}`,
+        },
+      ];
+    },
+  },
+  parseWarningRule(
+    {
+      code: 'invalid_row_length',
+      severity: 'warning',
+      description: 'Every row must have as many fields as the header',
+      summary: (count) => `Found ${count} row(s) with a different number of fields than the header`,
+    },
+    ['missing_columns', 'extra_columns']
+  ),
+  parseWarningRule(
+    {
+      code: 'invalid_quote',
+      severity: 'warning',
+      description: 'Quoted fields must be closed and quotes inside fields escaped',
+      summary: (count) => `Found ${count} misplaced or unterminated quote(s)`,
+    },
+    ['unterminated_quote', 'unexpected_quote']
+  ),
+  parseWarningRule(
+    {
+      code: 'empty_row',
+      severity: 'warning',
+      description: 'Files should not contain empty lines between records',
+      summary: (count) => `Found ${count} empty line(s) between records`,
+    },
+    ['empty_line']
+  ),
+  parseWarningRule(
+    {
+      code: 'duplicated_column',
+      severity: 'warning',
+      description: 'A column name must appear only once in the header',
+      summary: (count) => `Found ${count} duplicated column name(s) in the header`,
+    },
+    ['duplicate_header']
+  ),
+  parseWarningRule(
+    {
+      code: 'too_many_csv_warnings',
+      severity: 'info',
+      description: 'CSV warnings beyond the per-file limit are counted but not listed',
+      summary: () => 'Some CSV warnings are not listed',
+    },
+    ['too_many_warnings']
+  ),
+];
@@ -0,0 +1,60 @@
+import { parseGTFS } from '../utils/gtfsParser';
+import type { ParseProgress } from '../utils/gtfsParser';
+import type { GTFSWorkerRequest, GTFSWorkerResponse } from '../utils/gtfsWorkerClient';
+import { saveFeed } from '../utils/feedLibrary';
+
+// Minimum delay between two progress messages for the same file
+const PROGRESS_INTERVAL_MS = 100;
+
+function post(message: GTFSWorkerResponse) {
+  self.postMessage(message);
+}
+
+self.onmessage = async (event: MessageEvent<GTFSWorkerRequest>) => {
+  let lastProgressAt = 0;
+  let lastFileIndex = -1;
+
+  const handleProgress = (progress: ParseProgress) => {
+    const now = performance.now();
+    const isBoundary =
+      progress.fileIndex !== lastFileIndex || progress.percent === 0 || progress.percent === 100;
+    if (!isBoundary && now - lastProgressAt < PROGRESS_INTERVAL_MS) return;
+
+    lastProgressAt = now;
+    lastFileIndex = progress.fileIndex;
+    post({ type: 'progress', progress });
+  };
+
+  const { input, library } = event.data;
+  try {
+    const startedAt = performance.now();
+    const data = await parseGTFS(input, {
+      onFileList: (files) => post({ type: 'files', files }),
+      onProgress: handleProgress,
+    });
+    post({ type: 'done', data });
+
+    // Copying the feed into IndexedDB is as slow as the parse itself, do it here rather
+    // than on the page, after the page already has the data
+    if (library) {
+      try {
+        await saveFeed(data, {
+          file: library.keepZip && input.kind === 'zip' ? input.file : undefined,
+          parseDuration: performance.now() - startedAt,
+        });
+        post({ type: 'saved' });
+      } catch (err) {
+        post({
+          type: 'saveError',
+          feedHash: data.source.contentHash,
+          message: err instanceof Error ? err.message : 'Failed to save the feed',
+        });
+      }
+    }
+  } catch (err) {
+    post({
+      type: 'error',
+      message: err instanceof Error ? err.message : 'Failed to parse GTFS file',
+    });
+  }
+};
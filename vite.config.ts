@@ -16,6 +16,7 @@ export default defineConfig({
         manualChunks: {
           vendor: ['react', 'react-dom'],
           utils: ['jszip', 'date-fns'],
+          sqljs: ['sql.js'],
         },
       },
     },